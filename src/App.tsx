@@ -1,45 +1,281 @@
-import { Box, Flex, Grid, Text } from "@radix-ui/themes";
+import { Box, Button, Flex, Grid, Text } from "@radix-ui/themes";
 
 import { useOpfsDirectories } from "./hooks";
 
-import { AddNew, Cards, StitchAudio } from "./components";
-import { useCallback } from "react";
+import {
+  AddNew,
+  Cards,
+  ClipDetails,
+  ExportAudio,
+  ProjectSwitcher,
+  RegenerateCovers,
+  SequenceSettings,
+  Spacer,
+  StitchAudio,
+  StorageUsage,
+  Toast,
+  Transitions,
+  TrashBin,
+} from "./components";
+import { useCallback, useMemo, useState } from "react";
+
+import {
+  findDuplicateClips,
+  formatTime,
+  getClipDuration,
+  getEstimatedSequenceDuration,
+  isSpacerId,
+  restoreClip,
+} from "./utils";
+
+const DEFAULT_SPACER_DURATION = 2; // in sec
+
+// A clip just moved to the trash, offered for undo
+interface TrashedNotice {
+  folderName: string;
+  name: string;
+}
 
 function App() {
-  const { folders, isLoading, deleteFolder } = useOpfsDirectories();
+  const {
+    projectId,
+    folders,
+    entries,
+    transitions,
+    settings,
+    isLoading,
+    deleteFolder,
+    updateFolder,
+    reorderFolders,
+    addSpacer,
+    updateSpacer,
+    removeSpacer,
+  } = useOpfsDirectories();
+
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [trashed, setTrashed] = useState<TrashedNotice | null>(null);
+  const [trashedProjectId, setTrashedProjectId] = useState(projectId);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  // Undo restores into the active project, so the notice goes with a switch
+  if (projectId !== trashedProjectId) {
+    setTrashedProjectId(projectId);
+    setTrashed(null);
+  }
+
+  const duplicates = useMemo(() => findDuplicateClips(folders), [folders]);
+
+  const trashFolder = useCallback(
+    async (folderName: string) => {
+      const name =
+        folders.find((folder) => folder.folderName === folderName)?.name ??
+        "Clip";
+
+      try {
+        await deleteFolder(folderName);
+        setTrashed({ folderName, name });
+      } catch {
+        alert("Failed to delete the clip. Please try again.");
+      }
+    },
+    [folders, deleteFolder],
+  );
+
+  const undoTrash = async () => {
+    if (!trashed) return;
+    setTrashed(null);
+
+    try {
+      await restoreClip(trashed.folderName);
+    } catch (err) {
+      console.error(`Failed to restore ${trashed.folderName}:`, err);
+      alert("Failed to restore the clip. Please try again.");
+    }
+  };
+
+  const closeToast = useCallback(() => setTrashed(null), []);
 
   const onClick = useCallback(
     (e: React.MouseEvent) => {
       const item = (e.target as HTMLElement).closest("[data-id]");
-      if (!item) return;
+      const action = (e.target as HTMLElement).closest("[data-action]");
+      if (!item || !action) return;
 
       const name = item.getAttribute("data-id")!;
-      deleteFolder(name);
+
+      switch (action.getAttribute("data-action")) {
+        case "edit":
+          setEditingId(name);
+          break;
+        case "delete":
+          if (isSpacerId(name)) {
+            removeSpacer(name).catch(() =>
+              alert("Failed to remove the pause. Please try again."),
+            );
+          } else {
+            trashFolder(name);
+          }
+          break;
+      }
+    },
+    [trashFolder, removeSpacer],
+  );
+
+  const onDragStart = useCallback((e: React.DragEvent) => {
+    const item = (e.target as HTMLElement).closest("[data-id]");
+    if (!item) return;
+
+    const name = item.getAttribute("data-id")!;
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", name);
+    setDraggedId(name);
+  }, []);
+
+  const onDragOver = useCallback(
+    (e: React.DragEvent) => {
+      if (!draggedId) return;
+      if (!(e.target as HTMLElement).closest("[data-id]")) return;
+
+      // Allow dropping a card onto another card
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+    },
+    [draggedId],
+  );
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      const item = (e.target as HTMLElement).closest("[data-id]");
+      if (!item || !draggedId) return;
+
+      e.preventDefault();
+
+      const targetId = item.getAttribute("data-id")!;
+      if (targetId === draggedId) return;
+
+      // Move the dragged clip or spacer into the target's position
+      const order = entries.map((entry) => entry.id);
+      const from = order.indexOf(draggedId);
+      const to = order.indexOf(targetId);
+      if (from === -1 || to === -1) return;
+
+      order.splice(from, 1);
+      order.splice(to, 0, draggedId);
+
+      reorderFolders(order).catch(() =>
+        alert("Failed to save the clip order. Please try again."),
+      );
     },
-    [deleteFolder],
+    [draggedId, entries, reorderFolders],
   );
 
+  const onDragEnd = useCallback(() => setDraggedId(null), []);
+
   return (
     <Flex p="9" minWidth="fit-content" direction="column" gap="9">
-      <Grid columns="5" gap="8" onClick={onClick}>
+      <Flex justify="between" align="center" gap="3">
+        <Flex align="center" gap="3">
+          <ProjectSwitcher />
+          <Text size="2" color="gray">
+            {folders.length} {folders.length === 1 ? "clip" : "clips"} ·{" "}
+            {formatTime(
+              getEstimatedSequenceDuration(entries, transitions, settings),
+            )}
+          </Text>
+        </Flex>
+
+        <Flex gap="3">
+          <Button
+            variant="soft"
+            onClick={() =>
+              addSpacer(DEFAULT_SPACER_DURATION).catch(() =>
+                alert("Failed to add a pause. Please try again."),
+              )
+            }
+          >
+            Add pause
+          </Button>
+          <RegenerateCovers />
+          <SequenceSettings />
+          <Transitions />
+          <ExportAudio />
+          <TrashBin />
+          <StorageUsage />
+        </Flex>
+      </Flex>
+
+      <Grid
+        columns="5"
+        gap="8"
+        onClick={onClick}
+        onDragStart={onDragStart}
+        onDragOver={onDragOver}
+        onDrop={onDrop}
+        onDragEnd={onDragEnd}
+      >
         <AddNew />
 
         {isLoading ? (
           <Box>Loading videos...</Box>
         ) : (
-          folders.map((folder) => (
-            <Cards
-              key={folder.name}
-              id={folder.name}
-              title={folder.name}
-              cover={folder.cover}
-              color={folder.color}
-            />
-          ))
+          entries.map((entry) => {
+            if (entry.type === "spacer") {
+              return (
+                <Spacer
+                  key={entry.id}
+                  id={entry.id}
+                  duration={entry.duration}
+                  onChange={(duration) =>
+                    updateSpacer(entry.id, duration).catch(() =>
+                      alert("Failed to update the pause. Please try again."),
+                    )
+                  }
+                  isDragging={entry.id === draggedId}
+                />
+              );
+            }
+
+            const folder = entry.clip;
+            return (
+              <Cards
+                key={folder.folderName}
+                id={folder.folderName}
+                title={folder.name}
+                cover={folder.coverUrl}
+                color={folder.color}
+                duration={
+                  folder.duration === undefined
+                    ? undefined
+                    : getClipDuration(folder, settings)
+                }
+                duplicateOf={duplicates.get(folder.folderName)}
+                silenceGaps={folder.silence?.gaps}
+                isDragging={folder.folderName === draggedId}
+                isPlaying={folder.folderName === playingId}
+              />
+            );
+          })
         )}
       </Grid>
 
-      <StitchAudio />
+      <ClipDetails
+        clip={folders.find((folder) => folder.folderName === editingId) ?? null}
+        onSave={updateFolder}
+        onClose={() => setEditingId(null)}
+      />
+
+      <StitchAudio onClipChange={setPlayingId} />
+
+      {trashed && (
+        <Toast
+          key={trashed.folderName}
+          message={`Moved "${trashed.name}" to the trash`}
+          actionLabel="Undo"
+          onAction={undoTrash}
+          onClose={closeToast}
+        />
+      )}
     </Flex>
   );
 }
@@ -1,69 +1,63 @@
-import { useState } from "react";
-import { AspectRatio, Box, Card, Inset, Text } from "@radix-ui/themes";
+import {
+  AspectRatio,
+  Box,
+  Card,
+  IconButton,
+  Inset,
+  Text,
+} from "@radix-ui/themes";
 
 import { Hover } from "../Hover";
+import { UploadQueue } from "../UploadQueue";
 
-import {
-  OpfsStorage,
-  createAudioMetadata,
-  isValidAudioFile,
-} from "../../utils";
+import { useUploadQueue } from "../../hooks";
+import { getDroppedFiles, getInputFiles } from "../../utils";
 
 import styles from "./AddNew.module.css";
 
 const color = "hsl(339, 80%, 60%)";
 
-export const AddNew = () => {
-  const [isUploading, setIsUploading] = useState(false);
-
-  const getAudioFolderName = (file: File): string => {
-    // Remove file extension and use as folder name
-    return file.name.replace(/\.[^/.]+$/, "");
-  };
-
-  const handleFileUpload = async (file: File) => {
-    if (!isValidAudioFile(file)) {
-      alert("Please upload a valid audio file");
-      return;
-    }
-
-    setIsUploading(true);
-
-    try {
-      const folderName = getAudioFolderName(file);
-      const filePath = `${folderName}/${file.name}`;
-
-      // Create metadata for the audio
-      const metadata = createAudioMetadata(
-        file,
-        folderName,
-        `${window.location.origin}/audio-thumbnail.jpg`,
-      );
-
-      // Upload file to OPFS
-      await OpfsStorage.saveFile(filePath, file);
+// Radix folder icon
+const FolderIcon = () => (
+  <svg
+    width="15"
+    height="15"
+    viewBox="0 0 15 15"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path
+      d="M2 3.5C2 3.22386 2.22386 3 2.5 3H5.79289L7.14645 4.35355C7.24021 4.44732 7.36739 4.5 7.5 4.5H12.5C12.7761 4.5 13 4.72386 13 5V11.5C13 11.7761 12.7761 12 12.5 12H2.5C2.22386 12 2 11.7761 2 11.5V3.5ZM2.5 2C1.67157 2 1 2.67157 1 3.5V11.5C1 12.3284 1.67157 13 2.5 13H12.5C13.3284 13 14 12.3284 14 11.5V5C14 4.17157 13.3284 3.5 12.5 3.5H7.70711L6.35355 2.14645C6.25979 2.05268 6.13261 2 6 2H2.5Z"
+      fill="currentColor"
+      fillRule="evenodd"
+      clipRule="evenodd"
+    ></path>
+  </svg>
+);
 
-      // Save metadata as JSON in the same folder
-      const metadataPath = `${folderName}/metadata.json`;
-      const metadataJson = JSON.stringify(metadata, null, 2);
-
-      await OpfsStorage.saveFile(metadataPath, metadataJson);
-    } catch (error) {
-      console.error("Failed to upload audio:", error);
-      alert("Failed to upload audio. Please try again.");
-    } finally {
-      setIsUploading(false);
-    }
+export const AddNew = () => {
+  const { items, rejected, isUploading, enqueue, skip, retry, clear } =
+    useUploadQueue();
+
+  const openFileInput = (isFolder: boolean) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = "audio/*";
+    input.multiple = true;
+    input.webkitdirectory = isFolder;
+    input.onchange = (e) => {
+      const files = (e.target as HTMLInputElement).files;
+      if (files) enqueue(getInputFiles(files));
+    };
+    input.click();
   };
 
   const handleClick = async () => {
-    if (isUploading) return;
-
     // Check if File System Access API is supported
     if ("showOpenFilePicker" in window) {
       try {
-        // Use File System Access API to pick file
-        const [fileHandle] = await window.showOpenFilePicker({
+        // Use File System Access API to pick files
+        const fileHandles = await window.showOpenFilePicker({
           types: [
             {
               description: "Audio",
@@ -72,11 +66,15 @@ export const AddNew = () => {
               },
             },
           ],
-          multiple: false,
+          multiple: true,
         });
 
-        const file = await fileHandle.getFile();
-        await handleFileUpload(file);
+        const files: File[] = await Promise.all(
+          fileHandles.map((fileHandle: FileSystemFileHandle) =>
+            fileHandle.getFile(),
+          ),
+        );
+        enqueue(files);
       } catch (error) {
         // User cancelled the picker
         if (error instanceof Error && error.name !== "AbortError") {
@@ -85,26 +83,25 @@ export const AddNew = () => {
       }
     } else {
       // Fallback to traditional file input
-      const input = document.createElement("input");
-      input.type = "file";
-      input.accept = "audio/*";
-      input.onchange = async (e) => {
-        const file = (e.target as HTMLInputElement).files?.[0];
-        if (file) await handleFileUpload(file);
-      };
-      input.click();
+      openFileInput(false);
     }
   };
 
+  const handleFolderClick = (event: React.MouseEvent) => {
+    // Don't also open the file picker behind the button
+    event.stopPropagation();
+    openFileInput(true);
+  };
+
   const handleDrop = async (event: React.DragEvent) => {
     event.preventDefault();
     event.stopPropagation();
 
-    if (isUploading) return;
-
-    const file = event.dataTransfer.files?.[0];
-    if (file) {
-      await handleFileUpload(file);
+    try {
+      enqueue(await getDroppedFiles(event.dataTransfer));
+    } catch (error) {
+      console.error("Failed to read dropped files:", error);
+      alert("Failed to read the dropped files. Please try again.");
     }
   };
 
@@ -114,23 +111,20 @@ export const AddNew = () => {
   };
 
   return (
-    <Hover.Root>
-      <Box mb="2" position="relative">
-        <Card
-          style={{
-            boxShadow: `0 8px 48px -16px ${color.replace("%)", "%, 0.6)")}`,
-            cursor: isUploading ? "wait" : "pointer",
-            opacity: isUploading ? 0.6 : 1,
-          }}
-          onClick={handleClick}
-          onDragOver={handleDragOver}
-          onDrop={handleDrop}
-        >
-          <Inset className={styles.wrapper}>
-            <AspectRatio ratio={1}>
-              {isUploading ? (
-                <Text size="2">Uploading...</Text>
-              ) : (
+    <>
+      <Hover.Root>
+        <Box mb="2" position="relative">
+          <Card
+            style={{
+              boxShadow: `0 8px 48px -16px ${color.replace("%)", "%, 0.6)")}`,
+              cursor: "pointer",
+            }}
+            onClick={handleClick}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
+          >
+            <Inset className={styles.wrapper}>
+              <AspectRatio ratio={1}>
                 <svg
                   width="15"
                   height="15"
@@ -147,13 +141,33 @@ export const AddNew = () => {
                     clipRule="evenodd"
                   ></path>
                 </svg>
-              )}
-            </AspectRatio>
-          </Inset>
-        </Card>
-      </Box>
-
-      <Text size="2">{isUploading ? "Uploading..." : "Add new audio"}</Text>
-    </Hover.Root>
+              </AspectRatio>
+            </Inset>
+
+            <Hover.Show className={styles.actions}>
+              <IconButton
+                radius="full"
+                size="2"
+                title="Add a folder"
+                onClick={handleFolderClick}
+              >
+                <FolderIcon />
+              </IconButton>
+            </Hover.Show>
+          </Card>
+        </Box>
+
+        <Text size="2">{isUploading ? "Uploading..." : "Add new audio"}</Text>
+      </Hover.Root>
+
+      {/* Outside Hover.Root so the panel isn't dimmed with the card */}
+      <UploadQueue
+        items={items}
+        rejected={rejected}
+        onSkip={skip}
+        onRetry={retry}
+        onClear={clear}
+      />
+    </>
   );
 };
@@ -1,7 +1,9 @@
 import {
   AspectRatio,
+  Badge,
   Box,
   Card,
+  Flex,
   IconButton,
   Inset,
   Text,
@@ -9,6 +11,8 @@ import {
 
 import { Hover } from "../Hover";
 
+import { formatTime } from "../../utils";
+
 import styles from "./Cards.module.css";
 
 interface Cards {
@@ -16,13 +20,34 @@ interface Cards {
   title: string;
   cover: string;
   color: string;
+  duration?: number; // in sec, unknown until the clip has been inspected
+  duplicateOf?: string; // Name of an earlier clip with the same file
+  silenceGaps?: Array<[number, number]>; // Long silences inside the clip, in sec
+  isDragging?: boolean;
+  isPlaying?: boolean; // At the playhead of the stitched sequence
 }
 
-export const Cards = ({ id, title, cover, color }: Cards) => {
+export const Cards = ({
+  id,
+  title,
+  cover,
+  color,
+  duration,
+  duplicateOf,
+  silenceGaps = [],
+  isDragging,
+  isPlaying,
+}: Cards) => {
   return (
-    <Hover.Root data-id={id}>
+    <Hover.Root
+      data-id={id}
+      draggable
+      className={isDragging ? styles.dragging : undefined}
+      aria-current={isPlaying || undefined}
+    >
       <Box mb="2" position="relative">
         <Card
+          className={isPlaying ? styles.playing : undefined}
           style={{
             boxShadow: `0 8px 48px -16px ${color.replace("%)", "%, 0.6)")}`,
           }}
@@ -37,12 +62,56 @@ export const Cards = ({ id, title, cover, color }: Cards) => {
                   objectFit: "cover",
                 }}
                 alt={title}
+                draggable={false}
               />
             </AspectRatio>
           </Inset>
 
-          <Hover.Show className={styles.delete}>
-            <IconButton radius="full" size="2">
+          <Flex gap="2" className={styles.badges}>
+            {duplicateOf !== undefined && (
+              <Badge
+                color="amber"
+                variant="solid"
+                title={`Same file as "${duplicateOf}"`}
+              >
+                Duplicate
+              </Badge>
+            )}
+            {silenceGaps.length > 0 && (
+              <Badge
+                color="gray"
+                variant="solid"
+                title={silenceGaps
+                  .map(
+                    ([start, end]) =>
+                      `Silent ${formatTime(start)}–${formatTime(end)}`,
+                  )
+                  .join("\n")}
+              >
+                Long silence
+              </Badge>
+            )}
+          </Flex>
+
+          <Hover.Show className={styles.actions}>
+            <IconButton radius="full" size="2" data-action="edit">
+              <svg
+                width="15"
+                height="15"
+                viewBox="0 0 15 15"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M11.8536 1.14645C11.6583 0.951184 11.3417 0.951184 11.1465 1.14645L3.71455 8.57836C3.62459 8.66832 3.55263 8.77461 3.50251 8.89155L2.04044 12.303C1.9599 12.491 2.00189 12.709 2.14646 12.8536C2.29103 12.9981 2.50905 13.0401 2.69697 12.9596L6.10847 11.4975C6.2254 11.4474 6.3317 11.3754 6.42166 11.2855L13.8536 3.85355C14.0488 3.65829 14.0488 3.34171 13.8536 3.14645L11.8536 1.14645ZM4.42166 9.28547L11.5 2.20711L12.7929 3.5L5.71455 10.5784L4.21924 11.2192L3.78081 10.7808L4.42166 9.28547Z"
+                  fill="currentColor"
+                  fillRule="evenodd"
+                  clipRule="evenodd"
+                ></path>
+              </svg>
+            </IconButton>
+
+            <IconButton radius="full" size="2" data-action="delete">
               <svg
                 width="15"
                 height="15"
@@ -62,7 +131,16 @@ export const Cards = ({ id, title, cover, color }: Cards) => {
         </Card>
       </Box>
 
-      <Text size="2">{title}</Text>
+      <Flex justify="between" gap="2">
+        <Text size="2" truncate>
+          {title}
+        </Text>
+        {duration !== undefined && (
+          <Text size="2" color="gray">
+            {formatTime(duration)}
+          </Text>
+        )}
+      </Flex>
     </Hover.Root>
   );
 };
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  Flex,
+  Slider,
+  Spinner,
+  Tabs,
+  Text,
+} from "@radix-ui/themes";
+
+import { Waveform } from "../Waveform";
+import { EffectsEditor } from "./EffectsEditor";
+
+import {
+  AudioWorker,
+  DEFAULT_CLIP_EFFECTS,
+  OpfsStorage,
+  decodeOffline,
+  formatTime,
+  getClipPath,
+  type AudioMetadata,
+} from "../../utils";
+
+// Decoding for display only, so a low sample rate keeps it fast
+const PREVIEW_SAMPLE_RATE = 22050;
+const WAVEFORM_BINS = 600;
+
+// Smallest audible length a clip can be trimmed to, in sec
+const MIN_TRIM_LENGTH = 0.1;
+
+// Range of the per-clip gain offset, in dB
+const MIN_GAIN_DB = -24;
+const MAX_GAIN_DB = 12;
+
+const formatDb = (db: number) => `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+
+interface ClipDetailsContent {
+  clip: AudioMetadata;
+  onSave: (changes: Partial<AudioMetadata>) => Promise<unknown>;
+  onClose: VoidFunction;
+}
+
+const ClipDetailsContent = ({ clip, onSave, onClose }: ClipDetailsContent) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [trim, setTrim] = useState<[number, number] | null>(null); // in sec
+  const [gainDb, setGainDb] = useState(clip.gainDb ?? 0);
+  const [effects, setEffects] = useState(clip.effects ?? DEFAULT_CLIP_EFFECTS);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const file = await OpfsStorage.readFile(
+          getClipPath(clip.folderName, clip.fileName),
+        );
+        const [decoded] = await decodeOffline([file], PREVIEW_SAMPLE_RATE);
+        const peaks = await AudioWorker.getWaveformPeaks(
+          decoded,
+          WAVEFORM_BINS,
+        );
+        if (cancelled) return;
+
+        setBuffer(decoded);
+        setPeaks(peaks);
+      } catch (error) {
+        console.error(`Failed to load clip ${clip.folderName}:`, error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clip.folderName, clip.fileName]);
+
+  const duration = buffer?.duration ?? 0;
+
+  // Until the user edits them, show the stored trim points
+  const [trimStart, trimEnd] = trim ?? [
+    Math.min(clip.trimStart ?? 0, duration),
+    Math.min(clip.trimEnd ?? duration, duration),
+  ];
+
+  const handleSave = async () => {
+    if (!buffer) return;
+
+    setIsSaving(true);
+
+    try {
+      // Untrimmed edges are stored as undefined so they follow the file.
+      // Effects are kept even when every stage is off, so switching one back
+      // on restores its settings
+      await onSave({
+        trimStart: trimStart > 0 ? trimStart : undefined,
+        trimEnd: trimEnd < duration ? trimEnd : undefined,
+        gainDb: gainDb !== 0 ? gainDb : undefined,
+        effects:
+          JSON.stringify(effects) !== JSON.stringify(DEFAULT_CLIP_EFFECTS)
+            ? effects
+            : undefined,
+      });
+      onClose();
+    } catch {
+      alert("Failed to save clip settings. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog.Title>{clip.name}</Dialog.Title>
+      <Dialog.Description size="2" mb="4" color="gray">
+        Trim, gain and effects only affect playback and export; the original
+        file is kept.
+      </Dialog.Description>
+
+      <Tabs.Root defaultValue="trim">
+        <Tabs.List>
+          <Tabs.Trigger value="trim">Trim & gain</Tabs.Trigger>
+          <Tabs.Trigger value="effects">Effects</Tabs.Trigger>
+        </Tabs.List>
+
+        <Box pt="4">
+          <Tabs.Content value="trim">
+            <Flex direction="column" gap="3">
+              <Text size="2" weight="medium">
+                Trim
+              </Text>
+
+              {buffer ? (
+                <Waveform
+                  peaks={peaks}
+                  color={clip.color}
+                  selection={[trimStart / duration, trimEnd / duration]}
+                />
+              ) : (
+                <Flex height="96px" align="center" justify="center">
+                  <Spinner />
+                </Flex>
+              )}
+
+              <Slider
+                disabled={!buffer}
+                value={[trimStart, trimEnd]}
+                onValueChange={(value) => setTrim([value[0], value[1]])}
+                min={0}
+                max={duration || 1}
+                step={0.01}
+                minStepsBetweenThumbs={MIN_TRIM_LENGTH / 0.01}
+              />
+
+              <Flex justify="between">
+                <Text size="1" color="gray">
+                  In {formatTime(trimStart, 2)}
+                </Text>
+                <Text size="1" color="gray">
+                  Length {formatTime(trimEnd - trimStart, 2)}
+                </Text>
+                <Text size="1" color="gray">
+                  Out {formatTime(trimEnd, 2)}
+                </Text>
+              </Flex>
+            </Flex>
+
+            <Flex direction="column" gap="3" mt="5">
+              <Flex justify="between" align="baseline">
+                <Text size="2" weight="medium">
+                  Gain
+                </Text>
+                <Text size="1" color="gray">
+                  {clip.loudness === undefined
+                    ? "Loudness is measured on first normalized play"
+                    : clip.loudness === null
+                      ? "Clip is silent"
+                      : `Measured ${clip.loudness.toFixed(1)} LUFS`}
+                </Text>
+              </Flex>
+
+              <Flex gap="3" align="center">
+                <Slider
+                  value={[gainDb]}
+                  onValueChange={(value) => setGainDb(value[0])}
+                  min={MIN_GAIN_DB}
+                  max={MAX_GAIN_DB}
+                  step={0.5}
+                />
+                <Text size="1" color="gray" style={{ minWidth: 56 }}>
+                  {formatDb(gainDb)}
+                </Text>
+              </Flex>
+            </Flex>
+          </Tabs.Content>
+
+          <Tabs.Content value="effects">
+            <EffectsEditor effects={effects} onChange={setEffects} />
+          </Tabs.Content>
+        </Box>
+      </Tabs.Root>
+
+      <Flex gap="3" mt="5" justify="between">
+        <Button
+          variant="ghost"
+          color="gray"
+          disabled={!buffer}
+          onClick={() => {
+            setTrim([0, duration]);
+            setGainDb(0);
+            setEffects(DEFAULT_CLIP_EFFECTS);
+          }}
+        >
+          Reset
+        </Button>
+
+        <Flex gap="3">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Cancel
+            </Button>
+          </Dialog.Close>
+          <Button disabled={!buffer} loading={isSaving} onClick={handleSave}>
+            Save
+          </Button>
+        </Flex>
+      </Flex>
+    </>
+  );
+};
+
+interface ClipDetails {
+  clip: AudioMetadata | null;
+  onSave: (
+    folderName: string,
+    changes: Partial<AudioMetadata>,
+  ) => Promise<unknown>;
+  onClose: VoidFunction;
+}
+
+export const ClipDetails = ({ clip, onSave, onClose }: ClipDetails) => {
+  return (
+    <Dialog.Root open={!!clip} onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="640px">
+        {clip && (
+          <ClipDetailsContent
+            clip={clip}
+            onSave={(changes) => onSave(clip.folderName, changes)}
+            onClose={onClose}
+          />
+        )}
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
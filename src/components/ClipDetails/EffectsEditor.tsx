@@ -0,0 +1,309 @@
+import { Flex, Slider, Switch, Text } from "@radix-ui/themes";
+
+import type { ClipEffects, EqBand } from "../../utils";
+
+// Range of the EQ band gains, in dB
+const MAX_EQ_GAIN_DB = 12;
+
+const MIN_FREQUENCY = 20; // Hz
+const MAX_FREQUENCY = 20000; // Hz
+const MAX_HIGH_PASS_FREQUENCY = 400; // Hz
+
+// Frequency sliders move in steps along a logarithmic scale
+const FREQUENCY_STEPS = 1000;
+
+const BAND_NAMES = ["Low", "Low mid", "High mid", "High"];
+
+const formatDb = (db: number) => `${db > 0 ? "+" : ""}${db.toFixed(1)} dB`;
+
+const formatFrequency = (hz: number) =>
+  hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${Math.round(hz)} Hz`;
+
+const toFrequencyStep = (hz: number, max = MAX_FREQUENCY) =>
+  (Math.log(hz / MIN_FREQUENCY) / Math.log(max / MIN_FREQUENCY)) *
+  FREQUENCY_STEPS;
+
+const fromFrequencyStep = (step: number, max = MAX_FREQUENCY) =>
+  MIN_FREQUENCY * (max / MIN_FREQUENCY) ** (step / FREQUENCY_STEPS);
+
+interface EffectSetting {
+  label: string;
+  value: string; // Formatted for display
+  disabled?: boolean;
+  children: React.ReactNode; // The control
+}
+
+const EffectSetting = ({ label, value, disabled, children }: EffectSetting) => (
+  <Flex direction="column" gap="2">
+    <Flex justify="between">
+      <Text size="1" color={disabled ? "gray" : undefined}>
+        {label}
+      </Text>
+      <Text size="1" color="gray">
+        {value}
+      </Text>
+    </Flex>
+    {children}
+  </Flex>
+);
+
+interface EffectsEditor {
+  effects: ClipEffects;
+  onChange: (effects: ClipEffects) => void;
+}
+
+export const EffectsEditor = ({ effects, onChange }: EffectsEditor) => {
+  const { highPass, eq, compressor } = effects;
+
+  const updateBand = (index: number, changes: Partial<EqBand>) =>
+    onChange({
+      ...effects,
+      eq: {
+        ...eq,
+        bands: eq.bands.map((band, i) =>
+          i === index ? { ...band, ...changes } : band,
+        ),
+      },
+    });
+
+  const updateCompressor = (changes: Partial<ClipEffects["compressor"]>) =>
+    onChange({ ...effects, compressor: { ...compressor, ...changes } });
+
+  return (
+    <Flex direction="column" gap="5">
+      <Flex direction="column" gap="3">
+        <Text as="label" size="2" weight="medium">
+          <Flex justify="between" align="center">
+            High-pass filter
+            <Switch
+              checked={highPass.enabled}
+              onCheckedChange={(enabled) =>
+                onChange({ ...effects, highPass: { ...highPass, enabled } })
+              }
+            />
+          </Flex>
+        </Text>
+
+        <EffectSetting
+          label="Cutoff"
+          value={formatFrequency(highPass.frequency)}
+          disabled={!highPass.enabled}
+        >
+          <Slider
+            disabled={!highPass.enabled}
+            value={[
+              toFrequencyStep(highPass.frequency, MAX_HIGH_PASS_FREQUENCY),
+            ]}
+            onValueChange={(value) =>
+              onChange({
+                ...effects,
+                highPass: {
+                  ...highPass,
+                  frequency: fromFrequencyStep(
+                    value[0],
+                    MAX_HIGH_PASS_FREQUENCY,
+                  ),
+                },
+              })
+            }
+            min={0}
+            max={FREQUENCY_STEPS}
+          />
+        </EffectSetting>
+      </Flex>
+
+      <Flex direction="column" gap="3">
+        <Text as="label" size="2" weight="medium">
+          <Flex justify="between" align="center">
+            Equalizer
+            <Switch
+              checked={eq.enabled}
+              onCheckedChange={(enabled) =>
+                onChange({ ...effects, eq: { ...eq, enabled } })
+              }
+            />
+          </Flex>
+        </Text>
+
+        {eq.bands.map((band, i) => (
+          <Flex key={i} gap="4">
+            <Flex flexGrow="1" flexBasis="0" direction="column">
+              <EffectSetting
+                label={`${BAND_NAMES[i] ?? `Band ${i + 1}`} frequency`}
+                value={formatFrequency(band.frequency)}
+                disabled={!eq.enabled}
+              >
+                <Slider
+                  disabled={!eq.enabled}
+                  value={[toFrequencyStep(band.frequency)]}
+                  onValueChange={(value) =>
+                    updateBand(i, { frequency: fromFrequencyStep(value[0]) })
+                  }
+                  min={0}
+                  max={FREQUENCY_STEPS}
+                />
+              </EffectSetting>
+            </Flex>
+
+            <Flex flexGrow="1" flexBasis="0" direction="column">
+              <EffectSetting
+                label="Gain"
+                value={formatDb(band.gainDb)}
+                disabled={!eq.enabled}
+              >
+                <Slider
+                  disabled={!eq.enabled}
+                  value={[band.gainDb]}
+                  onValueChange={(value) => updateBand(i, { gainDb: value[0] })}
+                  min={-MAX_EQ_GAIN_DB}
+                  max={MAX_EQ_GAIN_DB}
+                  step={0.5}
+                />
+              </EffectSetting>
+            </Flex>
+
+            {/* Shelving filters have no bandwidth in Web Audio */}
+            <Flex flexGrow="1" flexBasis="0" direction="column">
+              {band.type === "peaking" && (
+                <EffectSetting
+                  label="Q"
+                  value={band.q.toFixed(1)}
+                  disabled={!eq.enabled}
+                >
+                  <Slider
+                    disabled={!eq.enabled}
+                    value={[band.q]}
+                    onValueChange={(value) => updateBand(i, { q: value[0] })}
+                    min={0.3}
+                    max={8}
+                    step={0.1}
+                  />
+                </EffectSetting>
+              )}
+            </Flex>
+          </Flex>
+        ))}
+      </Flex>
+
+      <Flex direction="column" gap="3">
+        <Text as="label" size="2" weight="medium">
+          <Flex justify="between" align="center">
+            Compressor
+            <Switch
+              checked={compressor.enabled}
+              onCheckedChange={(enabled) => updateCompressor({ enabled })}
+            />
+          </Flex>
+        </Text>
+
+        <Flex gap="4">
+          <Flex flexGrow="1" flexBasis="0" direction="column" gap="3">
+            <EffectSetting
+              label="Threshold"
+              value={`${compressor.threshold} dB`}
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.threshold]}
+                onValueChange={(value) =>
+                  updateCompressor({ threshold: value[0] })
+                }
+                min={-60}
+                max={0}
+                step={1}
+              />
+            </EffectSetting>
+
+            <EffectSetting
+              label="Ratio"
+              value={
+                compressor.ratio >= 20
+                  ? "20:1 (limiter)"
+                  : `${compressor.ratio}:1`
+              }
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.ratio]}
+                onValueChange={(value) => updateCompressor({ ratio: value[0] })}
+                min={1}
+                max={20}
+                step={0.5}
+              />
+            </EffectSetting>
+
+            <EffectSetting
+              label="Makeup gain"
+              value={formatDb(compressor.makeupDb)}
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.makeupDb]}
+                onValueChange={(value) =>
+                  updateCompressor({ makeupDb: value[0] })
+                }
+                min={0}
+                max={24}
+                step={0.5}
+              />
+            </EffectSetting>
+          </Flex>
+
+          <Flex flexGrow="1" flexBasis="0" direction="column" gap="3">
+            <EffectSetting
+              label="Attack"
+              value={`${Math.round(compressor.attack * 1000)} ms`}
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.attack * 1000]}
+                onValueChange={(value) =>
+                  updateCompressor({ attack: value[0] / 1000 })
+                }
+                min={0}
+                max={200}
+                step={1}
+              />
+            </EffectSetting>
+
+            <EffectSetting
+              label="Release"
+              value={`${Math.round(compressor.release * 1000)} ms`}
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.release * 1000]}
+                onValueChange={(value) =>
+                  updateCompressor({ release: value[0] / 1000 })
+                }
+                min={10}
+                max={1000}
+                step={10}
+              />
+            </EffectSetting>
+
+            <EffectSetting
+              label="Knee"
+              value={`${compressor.knee} dB`}
+              disabled={!compressor.enabled}
+            >
+              <Slider
+                disabled={!compressor.enabled}
+                value={[compressor.knee]}
+                onValueChange={(value) => updateCompressor({ knee: value[0] })}
+                min={0}
+                max={40}
+                step={1}
+              />
+            </EffectSetting>
+          </Flex>
+        </Flex>
+      </Flex>
+    </Flex>
+  );
+};
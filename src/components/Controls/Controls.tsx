@@ -1,4 +1,8 @@
-import { Box, Flex, IconButton, Slider, Text } from "@radix-ui/themes";
+import { Flex, IconButton, Select, Slider } from "@radix-ui/themes";
+
+import { PLAYBACK_SPEEDS } from "../../utils";
+
+import { Timeline, type TimelineSegment } from "./Timeline";
 
 import styles from "./Controls.module.css";
 
@@ -30,38 +34,69 @@ const VolumeNoneIcon = (props: React.ComponentPropsWithoutRef<"svg">) => (
   </svg>
 );
 
+const PreviousClipIcon = (props: React.ComponentPropsWithoutRef<"svg">) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 30 30"
+    width="16"
+    height="16"
+    fill="currentcolor"
+    {...props}
+  >
+    <path d="M 6 5 L 9 5 L 9 25 L 6 25 z M 25 5.5 L 25 24.5 L 11 15 z" />
+  </svg>
+);
+
+const NextClipIcon = (props: React.ComponentPropsWithoutRef<"svg">) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 30 30"
+    width="16"
+    height="16"
+    fill="currentcolor"
+    {...props}
+  >
+    <path d="M 21 5 L 24 5 L 24 25 L 21 25 z M 5 5.5 L 5 24.5 L 19 15 z" />
+  </svg>
+);
+
 interface Controls {
   disabled?: boolean;
   duration: number; // in sec
   currTime: number; // in sec
+  segments: TimelineSegment[];
+  clipName?: string; // Clip at the playhead
   onPlayClick: VoidFunction;
+  onPreviousClick: VoidFunction;
+  onNextClick: VoidFunction;
+  onSeek: (time: number) => void; // in sec
   isPlaying: boolean;
-  defaultVolume: number; // 0-100
+  speed: number; // Multiple of the normal rate
+  onSpeedChange?: (speed: number) => void; // Speed control hidden without it
+  volume: number; // 0-100
+  isMuted: boolean;
   onVolumeChange: (volume: number) => void;
+  onMuteClick: VoidFunction;
 }
 
 export const Controls = ({
   disabled,
   duration,
   currTime,
+  segments,
+  clipName,
   onPlayClick,
+  onPreviousClick,
+  onNextClick,
+  onSeek,
   isPlaying,
-  defaultVolume,
+  speed,
+  onSpeedChange,
+  volume,
+  isMuted,
   onVolumeChange,
+  onMuteClick,
 }: Controls) => {
-  const tabIndex = -1;
-
-  // Format time in seconds to MM:SS format
-  const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
-
-  // Calculate the progress width as a percentage
-  const progressPercentage = duration > 0 ? (currTime / duration) * 100 : 0;
-  const progressWidth = `${Math.min(progressPercentage, 100)}%`;
-
   return (
     <Flex
       position="absolute"
@@ -83,9 +118,20 @@ export const Controls = ({
           filter: "saturate(0.5) brightness(1.1)",
         }}
       >
-        <Flex gap="4" align="center" p="3">
+        <Flex gap="3" align="center" p="3">
           <IconButton
-            tabIndex={tabIndex}
+            aria-label="Previous clip"
+            variant="ghost"
+            color="gray"
+            radius="full"
+            disabled={disabled || segments.length === 0}
+            onClick={onPreviousClick}
+          >
+            <PreviousClipIcon aria-hidden />
+          </IconButton>
+
+          <IconButton
+            aria-label={isPlaying ? "Pause" : "Play"}
             radius="full"
             size="3"
             disabled={disabled}
@@ -98,6 +144,7 @@ export const Controls = ({
               viewBox="0 0 30 30"
               width="20"
               height="20"
+              aria-hidden
               className={`${styles.playIcon} ${isPlaying ? styles.hidden : styles.visible}`}
             >
               <path d="M 6 3 A 1 1 0 0 0 5 4 A 1 1 0 0 0 5 4.0039062 L 5 15 L 5 25.996094 A 1 1 0 0 0 5 26 A 1 1 0 0 0 6 27 A 1 1 0 0 0 6.5800781 26.8125 L 6.5820312 26.814453 L 26.416016 15.908203 A 1 1 0 0 0 27 15 A 1 1 0 0 0 26.388672 14.078125 L 6.5820312 3.1855469 L 6.5800781 3.1855469 A 1 1 0 0 0 6 3 z" />
@@ -108,46 +155,73 @@ export const Controls = ({
               viewBox="0 0 30 30"
               width="20"
               height="20"
+              aria-hidden
               className={`${styles.pauseIcon} ${isPlaying ? styles.visible : styles.hidden}`}
             >
               <path d="M 6 3 C 5.448 3 5 3.448 5 4 L 5 26 C 5 26.552 5.448 27 6 27 L 11 27 C 11.552 27 12 26.552 12 26 L 12 4 C 12 3.448 11.552 3 11 3 L 6 3 z M 19 3 C 18.448 3 18 3.448 18 4 L 18 26 C 18 26.552 18.448 27 19 27 L 24 27 C 24.552 27 25 26.552 25 26 L 25 4 C 25 3.448 24.552 3 24 3 L 19 3 z" />
             </svg>
           </IconButton>
+
+          <IconButton
+            aria-label="Next clip"
+            variant="ghost"
+            color="gray"
+            radius="full"
+            disabled={disabled || segments.length === 0}
+            onClick={onNextClick}
+          >
+            <NextClipIcon aria-hidden />
+          </IconButton>
         </Flex>
 
         <Flex align="center" gap="3" ml="9">
-          <Box
-            position="relative"
-            height="4px"
-            width="320px"
-            style={{
-              backgroundColor: "var(--gray-a5)",
-              borderRadius: "var(--radius-1)",
-            }}
-          >
-            <Box
-              position="absolute"
-              height="4px"
-              width={progressWidth}
-              style={{
-                borderRadius: "var(--radius-1)",
-                backgroundColor: "var(--gray-a9)",
-              }}
-            />
-            <Box position="absolute" top="0" right="0" mt="-28px">
-              <Text size="1" color="gray">
-                {formatTime(currTime)} / {formatTime(duration)}
-              </Text>
-            </Box>
-          </Box>
+          <Timeline
+            disabled={disabled}
+            duration={duration}
+            currTime={currTime}
+            segments={segments}
+            clipName={clipName}
+            onSeek={onSeek}
+          />
         </Flex>
 
         <Flex align="center" gap="2" p="5">
-          <VolumeNoneIcon color="var(--gray-a9)" />
+          {onSpeedChange && (
+            <Select.Root
+              size="1"
+              value={String(speed)}
+              onValueChange={(value) => onSpeedChange(Number(value))}
+            >
+              <Select.Trigger
+                variant="ghost"
+                color="gray"
+                aria-label="Playback speed"
+                mr="2"
+              />
+              <Select.Content position="popper">
+                {PLAYBACK_SPEEDS.map((option) => (
+                  <Select.Item key={option} value={String(option)}>
+                    {option}×
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          )}
+
+          <IconButton
+            aria-label={isMuted ? "Unmute" : "Mute"}
+            variant="ghost"
+            color="gray"
+            radius="full"
+            onClick={onMuteClick}
+          >
+            <VolumeNoneIcon aria-hidden color="var(--gray-a9)" />
+          </IconButton>
 
           <Slider
-            tabIndex={tabIndex}
-            defaultValue={[defaultVolume]}
+            role="group"
+            aria-label="Volume"
+            value={[isMuted ? 0 : volume]}
             onValueChange={(value) => onVolumeChange(value[0])}
             variant="soft"
             color="gray"
@@ -158,7 +232,7 @@ export const Controls = ({
             style={{ width: 80 }}
           />
 
-          <VolumeMaxIcon color="var(--gray-a9)" />
+          <VolumeMaxIcon aria-hidden color="var(--gray-a9)" />
         </Flex>
       </Flex>
     </Flex>
@@ -0,0 +1,206 @@
+import { useRef, useState } from "react";
+import { Box, Text } from "@radix-ui/themes";
+
+import { formatTime } from "../../utils";
+
+import styles from "./Controls.module.css";
+
+/**
+ * A clip's span on the timeline
+ */
+export interface TimelineSegment {
+  id: string; // Clip folder or spacer ID
+  start: number; // in sec
+  name: string;
+  color?: string; // Marker color, spacers have none
+}
+
+interface Timeline {
+  disabled?: boolean;
+  duration: number; // in sec
+  currTime: number; // in sec
+  segments?: TimelineSegment[];
+  clipName?: string; // Clip at the playhead
+  onSeek: (time: number) => void;
+}
+
+// Seconds skipped by the arrow and page keys while the timeline has focus
+const SEEK_STEP = 5;
+const SEEK_PAGE_STEP = 30;
+
+export const Timeline = ({
+  disabled,
+  duration,
+  currTime,
+  segments = [],
+  clipName,
+  onSeek,
+}: Timeline) => {
+  const trackRef = useRef<HTMLDivElement | null>(null);
+
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+
+  const isSeekable = !disabled && duration > 0;
+
+  // Map a pointer position on the track to a time in the sequence
+  const getTimeAt = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+
+    const fraction = (clientX - rect.left) / rect.width;
+    return Math.min(Math.max(fraction, 0), 1) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isSeekable) return;
+
+    // Keep receiving moves while dragging outside the track
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubTime(getTimeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isSeekable) return;
+
+    const time = getTimeAt(e.clientX);
+    setHoverTime(time);
+    if (scrubTime !== null) setScrubTime(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubTime === null) return;
+
+    onSeek(getTimeAt(e.clientX));
+    setScrubTime(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Shift+arrows jump between clips, which the player handles
+    if (!isSeekable || e.shiftKey || e.altKey || e.ctrlKey || e.metaKey) {
+      return;
+    }
+
+    const steps: Record<string, number> = {
+      ArrowLeft: -SEEK_STEP,
+      ArrowDown: -SEEK_STEP,
+      ArrowRight: SEEK_STEP,
+      ArrowUp: SEEK_STEP,
+      PageDown: -SEEK_PAGE_STEP,
+      PageUp: SEEK_PAGE_STEP,
+    };
+
+    let time: number;
+    if (e.key === "Home") time = 0;
+    else if (e.key === "End") time = duration;
+    else if (e.key in steps) time = currTime + steps[e.key];
+    else return;
+
+    e.preventDefault();
+    onSeek(Math.min(Math.max(time, 0), duration));
+  };
+
+  // Clip under the pointer, named in the tooltip
+  const hoverSegment =
+    hoverTime === null
+      ? undefined
+      : segments.filter(({ start }) => start <= hoverTime).at(-1);
+
+  // While scrubbing, the bar follows the pointer rather than playback
+  const displayTime = scrubTime ?? currTime;
+
+  // Calculate the progress width as a percentage
+  const progressPercentage = duration > 0 ? (displayTime / duration) * 100 : 0;
+  const progressWidth = `${Math.min(progressPercentage, 100)}%`;
+
+  return (
+    <Box
+      className={`${styles.timeline} ${isSeekable ? styles.seekable : ""}`}
+      role="slider"
+      tabIndex={isSeekable ? 0 : -1}
+      aria-label="Seek"
+      aria-disabled={!isSeekable}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(displayTime)}
+      aria-valuetext={[
+        clipName,
+        `${formatTime(displayTime)} of ${formatTime(duration)}`,
+      ]
+        .filter(Boolean)
+        .join(", ")}
+      onKeyDown={handleKeyDown}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setScrubTime(null)}
+      onPointerLeave={() => setHoverTime(null)}
+    >
+      <Box
+        ref={trackRef}
+        position="relative"
+        height="4px"
+        width="320px"
+        style={{
+          backgroundColor: "var(--gray-a5)",
+          borderRadius: "var(--radius-1)",
+        }}
+      >
+        <Box
+          position="absolute"
+          height="4px"
+          width={progressWidth}
+          style={{
+            borderRadius: "var(--radius-1)",
+            backgroundColor: "var(--gray-a9)",
+          }}
+        />
+        {duration > 0 &&
+          segments.map(({ id, start, color }) => (
+            <Box
+              key={id}
+              className={styles.marker}
+              style={{
+                left: `${(start / duration) * 100}%`,
+                backgroundColor: color ?? "var(--gray-a7)",
+              }}
+              aria-hidden
+            />
+          ))}
+
+        {clipName && (
+          <Box
+            position="absolute"
+            top="0"
+            left="0"
+            mt="-28px"
+            maxWidth="200px"
+            aria-hidden
+          >
+            <Text as="div" size="1" weight="medium" truncate>
+              {clipName}
+            </Text>
+          </Box>
+        )}
+
+        <Box position="absolute" top="0" right="0" mt="-28px" aria-hidden>
+          <Text size="1" color="gray">
+            {formatTime(displayTime)} / {formatTime(duration)}
+          </Text>
+        </Box>
+
+        {isSeekable && hoverTime !== null && (
+          <Box
+            className={styles.tooltip}
+            style={{ left: `${(hoverTime / duration) * 100}%` }}
+          >
+            <Text size="1">
+              {hoverSegment && `${hoverSegment.name} · `}
+              {formatTime(hoverTime)}
+            </Text>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
@@ -1 +1,2 @@
 export * from "./Controls";
+export * from "./Timeline";
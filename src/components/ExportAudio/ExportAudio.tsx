@@ -0,0 +1,293 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Button,
+  Dialog,
+  Flex,
+  Progress,
+  SegmentedControl,
+  Text,
+  TextField,
+} from "@radix-ui/themes";
+
+import { useOpfsDirectories } from "../../hooks";
+import {
+  AudioWorker,
+  DEFAULT_OPUS_BITRATE,
+  OPUS_SAMPLE_RATE,
+  decodeOffline,
+  downloadBlob,
+  isOpusEncodingSupported,
+  prepareSequence,
+  renderSequence,
+  saveAudioClip,
+  type WavBitDepth,
+} from "../../utils";
+
+type ExportDestination = "download" | "library";
+
+type ExportFormat = "wav" | "flac" | "opus";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  wav: "WAV",
+  flac: "FLAC",
+  opus: "Opus",
+};
+
+const SAMPLE_RATES = [44100, 48000];
+
+const OPUS_BITRATES = [64000, 96000, 128000, 192000];
+
+const getExportFileName = (format: ExportFormat) => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `stitched-${timestamp}.${format}`;
+};
+
+export const ExportAudio = () => {
+  const { getAllFiles, folders, settings, isLoading } = useOpfsDirectories();
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("wav");
+  const [isOpusSupported, setIsOpusSupported] = useState(false);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [sampleRate, setSampleRate] = useState(SAMPLE_RATES[0]);
+  const [bitrate, setBitrate] = useState(DEFAULT_OPUS_BITRATE);
+  const [title, setTitle] = useState("");
+  const [artist, setArtist] = useState("");
+  const [destination, setDestination] = useState<ExportDestination>("download");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [status, setStatus] = useState("");
+
+  const isExporting = progress !== null;
+
+  // Opus is encoded through WebCodecs, which not every browser has
+  useEffect(() => {
+    if (!open) return;
+    isOpusEncodingSupported().then(setIsOpusSupported);
+  }, [open]);
+
+  const cancelExport = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) cancelExport();
+    setOpen(nextOpen);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    // Opus is always rendered at the rate it decodes at
+    const renderRate = format === "opus" ? OPUS_SAMPLE_RATE : sampleRate;
+
+    try {
+      // Decoding, rendering and encoding take 10%, 60% and 30% of the bar
+      setProgress(0);
+      setStatus("Decoding clips...");
+      const data = await getAllFiles();
+      const clips = await prepareSequence(
+        data,
+        async (buffer) => (await decodeOffline([buffer], renderRate))[0],
+        renderRate,
+        settings,
+        signal,
+      );
+
+      setProgress(0.1);
+      setStatus("Rendering...");
+      const rendered = await renderSequence(clips, {
+        sampleRate: renderRate,
+        signal,
+        onProgress: (value) => setProgress(0.1 + value * 0.6),
+      });
+
+      setStatus(`Encoding ${FORMAT_LABELS[format]}...`);
+      const options = {
+        tags: { title, artist },
+        signal,
+        onProgress: (value: number) => setProgress(0.7 + value * 0.3),
+      };
+      const blob =
+        format === "opus"
+          ? await AudioWorker.encodeOpus(rendered, { bitrate, ...options })
+          : format === "flac"
+            ? await AudioWorker.encodeFlac(rendered, { bitDepth, ...options })
+            : await AudioWorker.encodeWav(rendered, { bitDepth, ...options });
+
+      const fileName = getExportFileName(format);
+
+      if (destination === "download") {
+        downloadBlob(blob, fileName);
+      } else {
+        setStatus("Saving to library...");
+        await saveAudioClip(new File([blob], fileName, { type: blob.type }));
+      }
+
+      setOpen(false);
+    } catch (error) {
+      if (error instanceof Error && error.name !== "AbortError") {
+        console.error("Failed to export audio:", error);
+        alert("Failed to export audio. Please try again.");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+      setStatus("");
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>
+        <Button variant="soft" disabled={isLoading || folders.length === 0}>
+          Export
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="420px">
+        <Dialog.Title>Export stitched audio</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Render all clips in order into a single audio file.
+        </Dialog.Description>
+
+        <Flex direction="column" gap="3">
+          <Flex justify="between" align="center">
+            <Text size="2">Format</Text>
+            <SegmentedControl.Root
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              disabled={isExporting}
+            >
+              <SegmentedControl.Item value="wav">WAV</SegmentedControl.Item>
+              <SegmentedControl.Item value="flac">FLAC</SegmentedControl.Item>
+              {isOpusSupported && (
+                <SegmentedControl.Item value="opus">Opus</SegmentedControl.Item>
+              )}
+            </SegmentedControl.Root>
+          </Flex>
+
+          {format === "opus" ? (
+            <Flex justify="between" align="center">
+              <Text size="2">Bitrate</Text>
+              <SegmentedControl.Root
+                value={String(bitrate)}
+                onValueChange={(value) => setBitrate(Number(value))}
+                disabled={isExporting}
+              >
+                {OPUS_BITRATES.map((rate) => (
+                  <SegmentedControl.Item key={rate} value={String(rate)}>
+                    {rate / 1000} kbps
+                  </SegmentedControl.Item>
+                ))}
+              </SegmentedControl.Root>
+            </Flex>
+          ) : (
+            <>
+              <Flex justify="between" align="center">
+                <Text size="2">Bit depth</Text>
+                <SegmentedControl.Root
+                  value={String(bitDepth)}
+                  onValueChange={(value) =>
+                    setBitDepth(Number(value) as WavBitDepth)
+                  }
+                  disabled={isExporting}
+                >
+                  <SegmentedControl.Item value="16">
+                    16-bit
+                  </SegmentedControl.Item>
+                  <SegmentedControl.Item value="24">
+                    24-bit
+                  </SegmentedControl.Item>
+                </SegmentedControl.Root>
+              </Flex>
+
+              <Flex justify="between" align="center">
+                <Text size="2">Sample rate</Text>
+                <SegmentedControl.Root
+                  value={String(sampleRate)}
+                  onValueChange={(value) => setSampleRate(Number(value))}
+                  disabled={isExporting}
+                >
+                  {SAMPLE_RATES.map((rate) => (
+                    <SegmentedControl.Item key={rate} value={String(rate)}>
+                      {rate / 1000} kHz
+                    </SegmentedControl.Item>
+                  ))}
+                </SegmentedControl.Root>
+              </Flex>
+            </>
+          )}
+
+          <Flex justify="between" align="center" gap="3">
+            <Text size="2">Title</Text>
+            <TextField.Root
+              placeholder="Optional"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isExporting}
+            />
+          </Flex>
+
+          <Flex justify="between" align="center" gap="3">
+            <Text size="2">Artist</Text>
+            <TextField.Root
+              placeholder="Optional"
+              value={artist}
+              onChange={(e) => setArtist(e.target.value)}
+              disabled={isExporting}
+            />
+          </Flex>
+
+          <Flex justify="between" align="center">
+            <Text size="2">Destination</Text>
+            <SegmentedControl.Root
+              value={destination}
+              onValueChange={(value) =>
+                setDestination(value as ExportDestination)
+              }
+              disabled={isExporting}
+            >
+              <SegmentedControl.Item value="download">
+                Download
+              </SegmentedControl.Item>
+              <SegmentedControl.Item value="library">
+                Save as clip
+              </SegmentedControl.Item>
+            </SegmentedControl.Root>
+          </Flex>
+
+          {isExporting && (
+            <Flex direction="column" gap="2">
+              <Progress value={progress * 100} />
+              <Text size="1" color="gray">
+                {status}
+              </Text>
+            </Flex>
+          )}
+        </Flex>
+
+        <Flex gap="3" mt="5" justify="end">
+          {isExporting ? (
+            <Button variant="soft" color="gray" onClick={cancelExport}>
+              Cancel export
+            </Button>
+          ) : (
+            <Dialog.Close>
+              <Button variant="soft" color="gray">
+                Close
+              </Button>
+            </Dialog.Close>
+          )}
+          <Button onClick={handleExport} loading={isExporting}>
+            Export
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
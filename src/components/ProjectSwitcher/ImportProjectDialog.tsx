@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button, Dialog, Flex, SegmentedControl, Text } from "@radix-ui/themes";
+
+import type {
+  ImportArchiveOptions,
+  ImportArchiveResult,
+  ImportConflict,
+} from "../../utils";
+
+type ImportTarget = ImportArchiveOptions["target"];
+
+interface ImportProjectDialog {
+  file: File;
+  projectName: string; // Name of the active project
+  onImport: (options: ImportArchiveOptions) => Promise<ImportArchiveResult>;
+  onClose: VoidFunction;
+}
+
+const getSummary = ({
+  imported,
+  skipped,
+  replaced,
+  renamed,
+}: ImportArchiveResult) =>
+  [
+    `${imported} ${imported === 1 ? "clip" : "clips"} imported`,
+    renamed > 0 && `${renamed} renamed`,
+    replaced > 0 && `${replaced} replaced`,
+    skipped > 0 && `${skipped} skipped`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * Choose where a project archive goes; mount it only while it should be shown
+ */
+export const ImportProjectDialog = ({
+  file,
+  projectName,
+  onImport,
+  onClose,
+}: ImportProjectDialog) => {
+  const [target, setTarget] = useState<ImportTarget>("new-project");
+  const [onConflict, setOnConflict] = useState<ImportConflict>("keep-both");
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ImportArchiveResult | null>(null);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+
+    try {
+      setResult(await onImport({ target, onConflict }));
+    } catch (err) {
+      alert(
+        err instanceof Error
+          ? `Failed to import the project: ${err.message}`
+          : "Failed to import the project. Please try again.",
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="440px">
+        <Dialog.Title>Import project</Dialog.Title>
+        <Dialog.Description size="2" color="gray" mb="4">
+          {file.name}
+        </Dialog.Description>
+
+        {result ? (
+          <Text as="p" size="2">
+            {getSummary(result)}.
+          </Text>
+        ) : (
+          <Flex direction="column" gap="4">
+            <Flex justify="between" align="center">
+              <Text size="2">Import into</Text>
+              <SegmentedControl.Root
+                value={target}
+                onValueChange={(value) => setTarget(value as ImportTarget)}
+                disabled={isImporting}
+              >
+                <SegmentedControl.Item value="new-project">
+                  New project
+                </SegmentedControl.Item>
+                <SegmentedControl.Item value="active-project">
+                  {projectName}
+                </SegmentedControl.Item>
+              </SegmentedControl.Root>
+            </Flex>
+
+            {target === "active-project" && (
+              <Flex justify="between" align="center">
+                <Text size="2">Clips with the same name</Text>
+                <SegmentedControl.Root
+                  value={onConflict}
+                  onValueChange={(value) =>
+                    setOnConflict(value as ImportConflict)
+                  }
+                  disabled={isImporting}
+                >
+                  <SegmentedControl.Item value="keep-both">
+                    Keep both
+                  </SegmentedControl.Item>
+                  <SegmentedControl.Item value="replace">
+                    Replace
+                  </SegmentedControl.Item>
+                  <SegmentedControl.Item value="skip">
+                    Skip
+                  </SegmentedControl.Item>
+                </SegmentedControl.Root>
+              </Flex>
+            )}
+          </Flex>
+        )}
+
+        <Flex gap="3" mt="5" justify="end">
+          {result ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Dialog.Close>
+                <Button variant="soft" color="gray" disabled={isImporting}>
+                  Cancel
+                </Button>
+              </Dialog.Close>
+              <Button onClick={handleImport} loading={isImporting}>
+                Import
+              </Button>
+            </>
+          )}
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
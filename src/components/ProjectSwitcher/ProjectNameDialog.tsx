@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Button, Dialog, Flex, TextField } from "@radix-ui/themes";
+
+interface ProjectNameDialog {
+  title: string;
+  submitLabel: string;
+  defaultName: string;
+  onSubmit: (name: string) => Promise<void>;
+  onClose: VoidFunction;
+}
+
+/**
+ * Ask for a project name; mount it only while it should be shown
+ */
+export const ProjectNameDialog = ({
+  title,
+  submitLabel,
+  defaultName,
+  onSubmit,
+  onClose,
+}: ProjectNameDialog) => {
+  const [name, setName] = useState(defaultName);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const trimmed = name.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+
+    setIsSaving(true);
+
+    try {
+      await onSubmit(trimmed);
+      onClose();
+    } catch {
+      alert("Failed to save the project. Please try again.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open onOpenChange={(open) => !open && onClose()}>
+      <Dialog.Content maxWidth="400px">
+        <Dialog.Title>{title}</Dialog.Title>
+
+        <form onSubmit={handleSubmit}>
+          <TextField.Root
+            autoFocus
+            placeholder="Project name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+
+          <Flex gap="3" mt="5" justify="end">
+            <Dialog.Close>
+              <Button type="button" variant="soft" color="gray">
+                Cancel
+              </Button>
+            </Dialog.Close>
+            <Button type="submit" disabled={!trimmed} loading={isSaving}>
+              {submitLabel}
+            </Button>
+          </Flex>
+        </form>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { AlertDialog, Button, DropdownMenu, Flex } from "@radix-ui/themes";
+
+import { useProjects } from "../../hooks";
+
+import { ImportProjectDialog } from "./ImportProjectDialog";
+import { ProjectNameDialog } from "./ProjectNameDialog";
+
+type NameDialog = "create" | "rename" | "duplicate";
+
+export const ProjectSwitcher = () => {
+  const {
+    projects,
+    activeProject,
+    switchProject,
+    addProject,
+    updateProjectName,
+    copyProject,
+    removeProject,
+    exportProject,
+    importProject,
+  } = useProjects();
+
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  if (!activeProject) return null;
+
+  const handleDelete = async () => {
+    try {
+      await removeProject(activeProject.id);
+    } catch {
+      alert("Failed to delete the project. Please try again.");
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportProject(activeProject);
+    } catch {
+      alert("Failed to export the project. Please try again.");
+    }
+  };
+
+  const openImportPicker = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".zip,application/zip";
+    input.onchange = (e) => {
+      const [file] = (e.target as HTMLInputElement).files ?? [];
+      if (file) setImportFile(file);
+    };
+    input.click();
+  };
+
+  return (
+    <>
+      <DropdownMenu.Root>
+        <DropdownMenu.Trigger>
+          <Button variant="soft" color="gray">
+            {activeProject.name}
+            <DropdownMenu.TriggerIcon />
+          </Button>
+        </DropdownMenu.Trigger>
+
+        <DropdownMenu.Content>
+          <DropdownMenu.RadioGroup
+            value={activeProject.id}
+            onValueChange={switchProject}
+          >
+            {projects.map(({ id, name }) => (
+              <DropdownMenu.RadioItem key={id} value={id}>
+                {name}
+              </DropdownMenu.RadioItem>
+            ))}
+          </DropdownMenu.RadioGroup>
+
+          <DropdownMenu.Separator />
+
+          <DropdownMenu.Item onSelect={() => setNameDialog("create")}>
+            New project…
+          </DropdownMenu.Item>
+          <DropdownMenu.Item onSelect={() => setNameDialog("rename")}>
+            Rename…
+          </DropdownMenu.Item>
+          <DropdownMenu.Item onSelect={() => setNameDialog("duplicate")}>
+            Duplicate…
+          </DropdownMenu.Item>
+
+          <DropdownMenu.Separator />
+
+          <DropdownMenu.Item onSelect={handleExport}>
+            Export project
+          </DropdownMenu.Item>
+          <DropdownMenu.Item onSelect={openImportPicker}>
+            Import project…
+          </DropdownMenu.Item>
+
+          <DropdownMenu.Separator />
+
+          <DropdownMenu.Item
+            color="red"
+            onSelect={() => setIsConfirmingDelete(true)}
+          >
+            Delete…
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Root>
+
+      {nameDialog === "create" && (
+        <ProjectNameDialog
+          title="New project"
+          submitLabel="Create"
+          defaultName=""
+          onSubmit={addProject}
+          onClose={() => setNameDialog(null)}
+        />
+      )}
+      {nameDialog === "rename" && (
+        <ProjectNameDialog
+          title="Rename project"
+          submitLabel="Rename"
+          defaultName={activeProject.name}
+          onSubmit={(name) => updateProjectName(activeProject.id, name)}
+          onClose={() => setNameDialog(null)}
+        />
+      )}
+      {nameDialog === "duplicate" && (
+        <ProjectNameDialog
+          title="Duplicate project"
+          submitLabel="Duplicate"
+          defaultName={`${activeProject.name} copy`}
+          onSubmit={(name) => copyProject(activeProject.id, name)}
+          onClose={() => setNameDialog(null)}
+        />
+      )}
+      {importFile && (
+        <ImportProjectDialog
+          file={importFile}
+          projectName={activeProject.name}
+          onImport={(options) => importProject(importFile, options)}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+
+      <AlertDialog.Root
+        open={isConfirmingDelete}
+        onOpenChange={setIsConfirmingDelete}
+      >
+        <AlertDialog.Content maxWidth="420px">
+          <AlertDialog.Title>Delete "{activeProject.name}"?</AlertDialog.Title>
+          <AlertDialog.Description size="2">
+            All of its clips and settings will be removed. This can't be undone.
+          </AlertDialog.Description>
+
+          <Flex gap="3" mt="5" justify="end">
+            <AlertDialog.Cancel>
+              <Button variant="soft" color="gray">
+                Cancel
+              </Button>
+            </AlertDialog.Cancel>
+            <AlertDialog.Action>
+              <Button color="red" onClick={handleDelete}>
+                Delete project
+              </Button>
+            </AlertDialog.Action>
+          </Flex>
+        </AlertDialog.Content>
+      </AlertDialog.Root>
+    </>
+  );
+};
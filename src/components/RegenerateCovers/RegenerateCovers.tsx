@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { Button } from "@radix-ui/themes";
+
+import { useOpfsDirectories } from "../../hooks";
+import { hasDefaultCover, regenerateClipCover } from "../../utils";
+
+export const RegenerateCovers = () => {
+  const { folders, isLoading } = useOpfsDirectories();
+
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const pending = folders.filter(hasDefaultCover);
+
+  const handleClick = async () => {
+    let failed = 0;
+
+    // One at a time so large libraries don't decode everything at once
+    for (const [index, folder] of pending.entries()) {
+      setProgress(index);
+
+      try {
+        await regenerateClipCover(folder);
+      } catch (error) {
+        console.error(`Failed to generate cover for ${folder.name}:`, error);
+        failed++;
+      }
+    }
+
+    setProgress(null);
+
+    if (failed > 0) {
+      alert(`Failed to generate ${failed} of ${pending.length} covers.`);
+    }
+  };
+
+  if (isLoading || (pending.length === 0 && progress === null)) return null;
+
+  return (
+    <Button
+      variant="soft"
+      color="gray"
+      loading={progress !== null}
+      onClick={handleClick}
+    >
+      Generate covers ({pending.length})
+    </Button>
+  );
+};
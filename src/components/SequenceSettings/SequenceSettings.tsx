@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Button, Dialog, Flex, Slider, Switch, Text } from "@radix-ui/themes";
+
+import { useOpfsDirectories } from "../../hooks";
+
+// Range of the normalization target, in LUFS
+const MIN_TARGET_LOUDNESS = -30;
+const MAX_TARGET_LOUDNESS = -6;
+
+// Range of the level below which audio counts as silence, in dBFS
+const MIN_SILENCE_THRESHOLD = -80;
+const MAX_SILENCE_THRESHOLD = -20;
+
+const MAX_GAP = 5; // in sec
+
+export const SequenceSettings = () => {
+  const { settings, updateSettings } = useOpfsDirectories();
+
+  // Track the slider locally so dragging doesn't write to OPFS on every step
+  const [targetLoudness, setTargetLoudness] = useState<number | null>(null);
+  const [silenceThreshold, setSilenceThreshold] = useState<number | null>(null);
+  const [gap, setGap] = useState<number | null>(null);
+
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger>
+        <Button variant="soft">Settings</Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="420px">
+        <Dialog.Title>Sequence settings</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Applied to every clip during playback and export.
+        </Dialog.Description>
+
+        <Flex direction="column" gap="4">
+          <Text as="label" size="2">
+            <Flex justify="between" align="center">
+              Normalize loudness
+              <Switch
+                checked={settings.normalize}
+                onCheckedChange={(normalize) => updateSettings({ normalize })}
+              />
+            </Flex>
+          </Text>
+
+          <Flex direction="column" gap="2">
+            <Flex justify="between">
+              <Text size="2" color={settings.normalize ? undefined : "gray"}>
+                Target loudness
+              </Text>
+              <Text size="1" color="gray">
+                {targetLoudness ?? settings.targetLoudness} LUFS
+              </Text>
+            </Flex>
+            <Slider
+              disabled={!settings.normalize}
+              value={[targetLoudness ?? settings.targetLoudness]}
+              onValueChange={(value) => setTargetLoudness(value[0])}
+              onValueCommit={async (value) => {
+                await updateSettings({ targetLoudness: value[0] });
+                setTargetLoudness(null);
+              }}
+              min={MIN_TARGET_LOUDNESS}
+              max={MAX_TARGET_LOUDNESS}
+              step={1}
+            />
+          </Flex>
+
+          <Text as="label" size="2">
+            <Flex justify="between" align="center">
+              Trim silence at the start and end of clips
+              <Switch
+                checked={settings.trimSilence}
+                onCheckedChange={(trimSilence) =>
+                  updateSettings({ trimSilence })
+                }
+              />
+            </Flex>
+          </Text>
+
+          <Flex direction="column" gap="2">
+            <Flex justify="between">
+              <Text size="2" color={settings.trimSilence ? undefined : "gray"}>
+                Silence threshold
+              </Text>
+              <Text size="1" color="gray">
+                {silenceThreshold ?? settings.silenceThreshold} dBFS
+              </Text>
+            </Flex>
+            <Slider
+              disabled={!settings.trimSilence}
+              value={[silenceThreshold ?? settings.silenceThreshold]}
+              onValueChange={(value) => setSilenceThreshold(value[0])}
+              onValueCommit={async (value) => {
+                await updateSettings({ silenceThreshold: value[0] });
+                setSilenceThreshold(null);
+              }}
+              min={MIN_SILENCE_THRESHOLD}
+              max={MAX_SILENCE_THRESHOLD}
+              step={1}
+            />
+          </Flex>
+
+          <Flex direction="column" gap="2">
+            <Flex justify="between">
+              <Text size="2">Gap between clips</Text>
+              <Text size="1" color="gray">
+                {(gap ?? settings.gap).toFixed(1)} s
+              </Text>
+            </Flex>
+            <Slider
+              value={[gap ?? settings.gap]}
+              onValueChange={(value) => setGap(value[0])}
+              onValueCommit={async (value) => {
+                await updateSettings({ gap: value[0] });
+                setGap(null);
+              }}
+              min={0}
+              max={MAX_GAP}
+              step={0.1}
+            />
+            <Text size="1" color="gray">
+              Added wherever two clips meet without a crossfade.
+            </Text>
+          </Flex>
+        </Flex>
+
+        <Flex mt="5" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Close
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
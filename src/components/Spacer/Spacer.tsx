@@ -0,0 +1,103 @@
+import {
+  AspectRatio,
+  Box,
+  Flex,
+  IconButton,
+  Text,
+  TextField,
+} from "@radix-ui/themes";
+
+import { Hover } from "../Hover";
+
+import styles from "./Spacer.module.css";
+
+const MIN_DURATION = 0.1; // in sec
+const MAX_DURATION = 60; // in sec
+
+interface Spacer {
+  id: string;
+  duration: number; // in sec
+  onChange: (duration: number) => void;
+  isDragging?: boolean;
+}
+
+/**
+ * A pause in the sequence, shown in the grid alongside clip cards
+ */
+export const Spacer = ({ id, duration, onChange, isDragging }: Spacer) => {
+  const commit = (input: HTMLInputElement) => {
+    const value = Number(input.value);
+
+    if (!Number.isFinite(value) || value < MIN_DURATION) {
+      input.value = String(duration);
+      return;
+    }
+
+    const next = Math.min(value, MAX_DURATION);
+    input.value = String(next);
+    if (next !== duration) onChange(next);
+  };
+
+  return (
+    <Hover.Root
+      data-id={id}
+      draggable
+      className={isDragging ? styles.dragging : undefined}
+    >
+      <Box mb="2" position="relative" className={styles.card}>
+        <AspectRatio ratio={1}>
+          <Flex
+            direction="column"
+            align="center"
+            justify="center"
+            gap="2"
+            height="100%"
+          >
+            <Text size="2" color="gray">
+              Pause
+            </Text>
+            <TextField.Root
+              type="number"
+              size="1"
+              aria-label="Pause length in seconds"
+              defaultValue={duration}
+              min={MIN_DURATION}
+              max={MAX_DURATION}
+              step={0.1}
+              onBlur={(e) => commit(e.currentTarget)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commit(e.currentTarget);
+              }}
+              style={{ width: 80 }}
+            >
+              <TextField.Slot side="right">s</TextField.Slot>
+            </TextField.Root>
+          </Flex>
+        </AspectRatio>
+
+        <Hover.Show className={styles.actions}>
+          <IconButton radius="full" size="2" data-action="delete">
+            <svg
+              width="15"
+              height="15"
+              viewBox="0 0 15 15"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                d="M5.5 1C5.22386 1 5 1.22386 5 1.5C5 1.77614 5.22386 2 5.5 2H9.5C9.77614 2 10 1.77614 10 1.5C10 1.22386 9.77614 1 9.5 1H5.5ZM3 3.5C3 3.22386 3.22386 3 3.5 3H5H10H11.5C11.7761 3 12 3.22386 12 3.5C12 3.77614 11.7761 4 11.5 4H11V12C11 12.5523 10.5523 13 10 13H5C4.44772 13 4 12.5523 4 12V4L3.5 4C3.22386 4 3 3.77614 3 3.5ZM5 4H10V12H5V4Z"
+                fill="currentColor"
+                fillRule="evenodd"
+                clipRule="evenodd"
+              ></path>
+            </svg>
+          </IconButton>
+        </Hover.Show>
+      </Box>
+
+      <Text size="2" color="gray">
+        Spacer
+      </Text>
+    </Hover.Root>
+  );
+};
@@ -1,19 +1,91 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { VisuallyHidden } from "@radix-ui/themes";
 
 import { useOpfsDirectories } from "../../hooks";
-
-import { Controls } from "../Controls";
-
-export const StitchAudio = () => {
-  const { getAllFiles, folders, isLoading } = useOpfsDirectories();
+import {
+  createPitchCorrection,
+  disposePitchCorrection,
+  formatTime,
+  getClipIndexAt,
+  getSequenceDuration,
+  getSequenceLayout,
+  getSequenceSignature,
+  isPlaybackSpeedSupported,
+  loadPitchCorrection,
+  prepareSequence,
+  scheduleSequence,
+  setMediaSessionHandlers,
+  setMediaSessionMetadata,
+  setMediaSessionPosition,
+  setMediaSessionState,
+  type AudioMetadata,
+  type ClipLayout,
+  type SequenceClip,
+} from "../../utils";
+
+import { Controls, type TimelineSegment } from "../Controls";
+import { Toast } from "../Toast";
+
+const DEFAULT_VOLUME = 80; // 0-100
+const VOLUME_STEP = 10;
+
+// Shown in place of a clip name while a spacer plays
+const SPACER_NAME = "Silence";
+
+// Seconds skipped by the arrow keys and OS seek buttons
+const SEEK_STEP = 5;
+
+// Going back to the previous clip this far into a clip restarts it instead
+const RESTART_THRESHOLD = 3; // in sec
+
+// Keys typed here belong to the field or dialog, not the player
+const IGNORED_TARGETS =
+  "input, textarea, select, [contenteditable='true'], [role='dialog'], [role='alertdialog'], [role='menu'], [role='listbox']";
+
+// Space already activates these when they have focus
+const ACTIVATABLE_TARGETS =
+  "button, a[href], summary, [role='button'], [role='checkbox'], [role='switch'], [role='radio'], [role='tab']";
+
+interface StitchAudio {
+  onClipChange?: (id: string | null) => void; // Clip or spacer at the playhead
+}
+
+export const StitchAudio = ({ onClipChange }: StitchAudio) => {
+  const {
+    getAllFiles,
+    projectId,
+    folders,
+    entries,
+    transitions,
+    settings,
+    isLoading,
+  } = useOpfsDirectories();
 
   const audioCtxRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const animationRef = useRef<number | null>(null);
+  const clipsRef = useRef<SequenceClip[]>([]);
+  const layoutRef = useRef<ClipLayout[]>([]);
+  // Metadata of each clip in playback order, null for spacers
+  const clipMetadataRef = useRef<(AudioMetadata | null)[]>([]);
+  // Clip last seen playing, to notice when the next one starts
+  const clipIndexRef = useRef(-1);
+  // Bumped whenever the sequence is rebuilt or torn down, so a slower load
+  // started earlier can tell its result is stale
+  const loadIdRef = useRef(0);
+  // Signature of the library state the loaded sequence was last built from
+  const appliedSignatureRef = useRef<string | null>(null);
+  const scheduledRef = useRef<{
+    bus: GainNode;
+    sources: AudioBufferSourceNode[];
+    pitchCorrection: AudioWorkletNode | null; // Only when not at normal speed
+  } | null>(null);
   const playbackTimerRef = useRef({
     duration: 0,
-    startTime: 0,
-    volume: 80,
+    startTime: 0, // Context time playback last (re)started at
+    startPosition: 0, // Position in the sequence it started from
+    speed: 1,
+    volume: DEFAULT_VOLUME,
     filesLen: 0,
   }).current;
 
@@ -21,6 +93,24 @@ export const StitchAudio = () => {
   const [currTime, setCurrTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isStitching, setIsStitching] = useState(false);
+  const [volume, setVolume] = useState(DEFAULT_VOLUME);
+  const [isMuted, setIsMuted] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // Turned off when the pitch correction worklet can't be loaded
+  const [isSpeedAvailable, setIsSpeedAvailable] = useState(
+    isPlaybackSpeedSupported,
+  );
+  // Says why the speed control went away, until dismissed
+  const [speedNotice, setSpeedNotice] = useState<string | null>(null);
+  const [clipIndex, setClipIndex] = useState(-1);
+  const [segments, setSegments] = useState<TimelineSegment[]>([]);
+  // Read out by screen readers through a live region
+  const [announcement, setAnnouncement] = useState("");
+
+  const sequenceSignature = useMemo(
+    () => getSequenceSignature(entries, transitions, settings),
+    [entries, transitions, settings],
+  );
 
   const createNewAudioContext = useCallback(() => {
     audioCtxRef.current = new (window.AudioContext ||
@@ -46,6 +136,22 @@ export const StitchAudio = () => {
     return gainNode;
   }, [playbackTimerRef, getAudioContext]);
 
+  const stopSources = useCallback(() => {
+    const scheduled = scheduledRef.current;
+    if (!scheduled) return;
+
+    for (const source of scheduled.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    scheduled.bus.disconnect();
+    if (scheduled.pitchCorrection) {
+      disposePitchCorrection(scheduled.pitchCorrection);
+    }
+
+    scheduledRef.current = null;
+  }, []);
+
   const stopPlayback = useCallback(async () => {
     const audioCtx = getAudioContext();
 
@@ -59,6 +165,7 @@ export const StitchAudio = () => {
   }, [getAudioContext]);
 
   const endPlayback = useCallback(async () => {
+    loadIdRef.current++;
     setIsPlaying(false);
 
     if (audioCtxRef.current && audioCtxRef.current?.state !== "closed") {
@@ -66,9 +173,18 @@ export const StitchAudio = () => {
     }
 
     createNewAudioContext();
+    gainNodeRef.current = null;
+    scheduledRef.current = null;
+    clipsRef.current = [];
+    layoutRef.current = [];
+    clipMetadataRef.current = [];
+    clipIndexRef.current = -1;
+    setClipIndex(-1);
+    setSegments([]);
     playbackTimerRef.duration = 0;
     playbackTimerRef.filesLen = 0;
     playbackTimerRef.startTime = 0;
+    playbackTimerRef.startPosition = 0;
     setCurrTime(0);
     setDuration(0);
 
@@ -78,133 +194,484 @@ export const StitchAudio = () => {
     }
   }, [createNewAudioContext, playbackTimerRef]);
 
+  // Name of a clip in playback order, or null past either end
+  const getClipName = useCallback((index: number): string | null => {
+    if (index < 0 || index >= clipMetadataRef.current.length) return null;
+    return clipMetadataRef.current[index]?.name ?? SPACER_NAME;
+  }, []);
+
+  // Position in the sequence, moving `speed` times as fast as the context
+  // clock; past the end once the sequence has played through
+  const getElapsedTime = useCallback(() => {
+    const { startTime, startPosition, speed } = playbackTimerRef;
+    return startPosition + (getAudioContext().currentTime - startTime) * speed;
+  }, [getAudioContext, playbackTimerRef]);
+
+  // Current position in the sequence, whether playing or paused
+  const getPosition = useCallback(
+    () => Math.min(Math.max(0, getElapsedTime()), playbackTimerRef.duration),
+    [getElapsedTime, playbackTimerRef],
+  );
+
   const updatePlaybackTime = useCallback(async () => {
-    const audioCtx = getAudioContext();
-    const { duration, startTime } = playbackTimerRef;
-    const elapsedTime = audioCtx.currentTime - startTime;
+    const { duration } = playbackTimerRef;
+    const elapsedTime = getElapsedTime();
 
-    if (elapsedTime > duration) {
+    if (elapsedTime >= duration) {
       await stopPlayback();
       return;
     }
 
     if (elapsedTime <= duration && elapsedTime >= 0) {
       setCurrTime(elapsedTime);
+
+      const index = getClipIndexAt(layoutRef.current, elapsedTime);
+      if (index !== clipIndexRef.current) {
+        clipIndexRef.current = index;
+        setClipIndex(index);
+        setAnnouncement(`Now playing ${getClipName(index)}`);
+      }
     }
 
     animationRef.current = requestAnimationFrame(() => {
       updatePlaybackTime();
     });
-  }, [stopPlayback, getAudioContext, playbackTimerRef]);
+  }, [stopPlayback, getElapsedTime, getClipName, playbackTimerRef]);
+
+  const startSources = useCallback(
+    (from: number) => {
+      const audioCtx = getAudioContext();
+
+      // Drop whatever is scheduled and lay the sequence out again from `from`
+      stopSources();
+
+      const { speed } = playbackTimerRef;
+      const output = gainNodeRef.current ?? getGainNode();
+      const bus = audioCtx.createGain();
+
+      // Sources change pitch along with speed; the worklet changes it back
+      let pitchCorrection: AudioWorkletNode | null = null;
+      if (speed !== 1) {
+        pitchCorrection = createPitchCorrection(audioCtx, speed);
+        bus.connect(pitchCorrection);
+        pitchCorrection.connect(output);
+      } else {
+        bus.connect(output);
+      }
 
-  const onPlayClick = useCallback(async () => {
-    let audioCtx = getAudioContext();
+      const startTime = audioCtx.currentTime;
+      playbackTimerRef.startTime = startTime;
+      playbackTimerRef.startPosition = from;
+
+      const sources = scheduleSequence(
+        audioCtx,
+        clipsRef.current,
+        bus,
+        startTime,
+        from,
+        speed,
+      );
+      const lastSourceNode = sources.at(-1);
+
+      if (lastSourceNode) {
+        lastSourceNode.onended = async () => {
+          await stopPlayback();
+        };
+      }
 
-    // Resume context if suspended due to browser autoplay policies
-    if (audioCtx.state === "suspended") {
-      await audioCtx.resume();
-      setIsPlaying(true);
-      updatePlaybackTime();
-      return;
-    }
+      scheduledRef.current = { bus, sources, pitchCorrection };
+      clipIndexRef.current = getClipIndexAt(layoutRef.current, from);
+      setClipIndex(clipIndexRef.current);
+      setCurrTime(from);
+      setMediaSessionPosition(playbackTimerRef.duration, from, speed);
+    },
+    [getAudioContext, getGainNode, stopSources, stopPlayback, playbackTimerRef],
+  );
 
-    if (isPlaying) {
-      await stopPlayback();
-      return;
-    }
+  // Change the rate the position moves at, keeping the current position
+  const setPlaybackSpeed = useCallback(
+    (newSpeed: number) => {
+      playbackTimerRef.startPosition = getElapsedTime();
+      playbackTimerRef.startTime = getAudioContext().currentTime;
+      playbackTimerRef.speed = newSpeed;
+      setSpeed(newSpeed);
+    },
+    [getAudioContext, getElapsedTime, playbackTimerRef],
+  );
 
-    await endPlayback();
-    audioCtx = getAudioContext();
+  // Load what playing at a speed other than normal needs into the context
+  // @returns Whether it loaded; if not, the speed control is hidden
+  const loadSpeed = useCallback(
+    async (newSpeed: number) => {
+      if (newSpeed === 1) return true;
+
+      try {
+        await loadPitchCorrection(getAudioContext());
+        return true;
+      } catch (err) {
+        console.error("Failed to load pitch correction:", err);
+        setIsSpeedAvailable(false);
+        setSpeedNotice(
+          "Pitch correction failed to load, so playback stays at normal speed",
+        );
+        return false;
+      }
+    },
+    [getAudioContext],
+  );
 
-    setIsStitching(true);
+  // Decode the sequence (clips decoded before come from the cache)
+  // @returns Whether this is still the latest load and was applied
+  const loadSequence = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    const audioCtx = getAudioContext();
+
+    if (!(await loadSpeed(playbackTimerRef.speed))) setPlaybackSpeed(1);
 
     const data = await getAllFiles();
+    const clips = await prepareSequence(
+      data,
+      (buffer) => audioCtx.decodeAudioData(buffer),
+      audioCtx.sampleRate,
+      settings,
+    );
 
-    playbackTimerRef.filesLen = data.length;
+    if (loadId !== loadIdRef.current) return false;
 
-    const audioBuffers = await Promise.all(
-      data.map(async ({ buffer }) => {
-        return await audioCtx.decodeAudioData(buffer);
-      }),
+    clipsRef.current = clips;
+    layoutRef.current = getSequenceLayout(clips);
+    clipMetadataRef.current = data.map((entry) =>
+      entry.type === "spacer" ? null : entry.clip.metadata,
     );
-
-    const totalDuration = audioBuffers.reduce(
-      (sum, buffer) => sum + buffer.duration,
-      0,
+    setSegments(
+      layoutRef.current.map(({ start }, i) => ({
+        id: data[i].id,
+        start,
+        name: getClipName(i) ?? SPACER_NAME,
+        color: clipMetadataRef.current[i]?.color,
+      })),
     );
-    setDuration(totalDuration);
+    playbackTimerRef.filesLen = data.length;
 
-    let startTime = audioCtx.currentTime;
+    const totalDuration = getSequenceDuration(clips);
+    setDuration(totalDuration);
     playbackTimerRef.duration = totalDuration;
-    playbackTimerRef.startTime = startTime;
 
-    let lastSourceNode: AudioBufferSourceNode | null = null;
+    return true;
+  }, [
+    getAudioContext,
+    getAllFiles,
+    getClipName,
+    loadSpeed,
+    setPlaybackSpeed,
+    settings,
+    playbackTimerRef,
+  ]);
 
-    const gainNode = getGainNode();
+  // Name the clip at a position along with the time, for announcements
+  const describePosition = useCallback(
+    (time: number) => {
+      const name = getClipName(getClipIndexAt(layoutRef.current, time));
+      return name ? `${name}, ${formatTime(time)}` : formatTime(time);
+    },
+    [getClipName],
+  );
 
-    for (const buffer of audioBuffers) {
-      const source = audioCtx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(gainNode);
+  const onPlayClick = useCallback(async () => {
+    const audioCtx = getAudioContext();
 
-      source.start(startTime);
+    // Resume context if suspended due to browser autoplay policies
+    if (audioCtx.state === "suspended" && clipsRef.current.length > 0) {
+      // Start over once the sequence has played to the end
+      if (getElapsedTime() >= playbackTimerRef.duration) startSources(0);
 
-      startTime += buffer.duration;
-      lastSourceNode = source;
+      await audioCtx.resume();
+      setIsPlaying(true);
+      setAnnouncement(`Playing ${describePosition(getPosition())}`);
+      updatePlaybackTime();
+      return;
     }
 
-    if (lastSourceNode) {
-      lastSourceNode.onended = async () => {
-        await stopPlayback();
-        await audioCtx.close();
-      };
+    if (isPlaying) {
+      await stopPlayback();
+      setAnnouncement(`Paused at ${formatTime(getPosition())}`);
+      return;
     }
 
+    await endPlayback();
+
+    setIsStitching(true);
+    appliedSignatureRef.current = sequenceSignature;
+
+    if (!(await loadSequence())) {
+      setIsStitching(false);
+      return;
+    }
+
+    getGainNode();
+    startSources(0);
+
     setIsPlaying(true);
     setIsStitching(false);
+    setAnnouncement(`Playing ${describePosition(0)}`);
     updatePlaybackTime();
   }, [
+    getElapsedTime,
+    getPosition,
+    describePosition,
     stopPlayback,
     endPlayback,
+    startSources,
     getAudioContext,
     getGainNode,
-    getAllFiles,
+    loadSequence,
     updatePlaybackTime,
     isPlaying,
+    sequenceSignature,
     playbackTimerRef,
   ]);
 
-  const handleVolumeChange = useCallback(
-    (newVolume: number) => {
-      playbackTimerRef.volume = newVolume;
+  const handleSeek = useCallback(
+    (time: number) => {
+      if (clipsRef.current.length === 0) return;
 
-      if (gainNodeRef.current) {
-        gainNodeRef.current.gain.value = newVolume / 100;
-      }
+      // Rescheduling works the same whether playing or paused; a suspended
+      // context simply holds the new sources until it is resumed
+      const position = Math.min(Math.max(0, time), playbackTimerRef.duration);
+      startSources(position);
+      setAnnouncement(describePosition(position));
+    },
+    [startSources, describePosition, playbackTimerRef],
+  );
+
+  // Seek to the start of the next or previous clip
+  const handleClipJump = useCallback(
+    (direction: 1 | -1) => {
+      const layout = layoutRef.current;
+      if (layout.length === 0) return;
+
+      const position = getPosition();
+      const index = getClipIndexAt(layout, position);
+
+      const target =
+        direction === -1 && position - layout[index].start > RESTART_THRESHOLD
+          ? index
+          : index + direction;
+      if (target < 0 || target >= layout.length) return;
+
+      handleSeek(layout[target].start);
+    },
+    [getPosition, handleSeek],
+  );
+
+  const handleVolumeChange = useCallback((newVolume: number) => {
+    setVolume(newVolume);
+    setIsMuted(false);
+  }, []);
+
+  const closeSpeedNotice = useCallback(() => setSpeedNotice(null), []);
+
+  const handleSpeedChange = useCallback(
+    async (newSpeed: number) => {
+      if (!(await loadSpeed(newSpeed))) return;
+
+      const position = getPosition();
+      setPlaybackSpeed(newSpeed);
+
+      // Carry on from the same position at the new rate
+      if (clipsRef.current.length > 0) startSources(position);
     },
-    [playbackTimerRef],
+    [getPosition, startSources, loadSpeed, setPlaybackSpeed],
   );
 
+  // Muting keeps the volume so unmuting goes back to it
   useEffect(() => {
-    if (
-      playbackTimerRef.filesLen === 0 ||
-      folders.length === playbackTimerRef.filesLen
-    ) {
+    playbackTimerRef.volume = isMuted ? 0 : volume;
+
+    if (gainNodeRef.current) {
+      gainNodeRef.current.gain.value = playbackTimerRef.volume / 100;
+    }
+  }, [volume, isMuted, playbackTimerRef]);
+
+  // Keyboard shortcuts, available anywhere outside text fields and dialogs
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const target = e.target instanceof Element ? e.target : null;
+      if (target?.closest(IGNORED_TARGETS)) return;
+
+      switch (e.key) {
+        case " ":
+          if (target?.closest(ACTIVATABLE_TARGETS)) return;
+          if (!e.repeat && !isLoading && !isStitching) onPlayClick();
+          break;
+        case "ArrowLeft":
+        case "ArrowRight": {
+          const direction = e.key === "ArrowLeft" ? -1 : 1;
+          if (e.shiftKey) handleClipJump(direction);
+          else handleSeek(getPosition() + direction * SEEK_STEP);
+          break;
+        }
+        case "ArrowUp":
+        case "ArrowDown": {
+          const step = e.key === "ArrowUp" ? VOLUME_STEP : -VOLUME_STEP;
+          const level = Math.min(
+            Math.max((isMuted ? 0 : volume) + step, 0),
+            100,
+          );
+          handleVolumeChange(level);
+          setAnnouncement(`Volume ${level}%`);
+          break;
+        }
+        case "m":
+        case "M":
+          setIsMuted(!isMuted);
+          setAnnouncement(isMuted ? "Unmuted" : "Muted");
+          break;
+        default:
+          return;
+      }
+
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [
+    isLoading,
+    isStitching,
+    isMuted,
+    volume,
+    onPlayClick,
+    handleSeek,
+    handleClipJump,
+    handleVolumeChange,
+    getPosition,
+  ]);
+
+  // Rebuild a loaded sequence when what it plays changes and carry on from the
+  // same position; only added or changed clips are decoded. Other writes to
+  // the library (covers, cached analysis) leave playback alone. Runs again
+  // once each load is applied, to catch changes made while it was loading.
+  useEffect(() => {
+    if (playbackTimerRef.filesLen === 0) return;
+    if (sequenceSignature === appliedSignatureRef.current) return;
+
+    appliedSignatureRef.current = sequenceSignature;
+    loadSequence().then(
+      (isCurrent) => {
+        if (!isCurrent) return;
+
+        startSources(getPosition());
+      },
+      (err) => {
+        console.error("Failed to update the sequence:", err);
+        appliedSignatureRef.current = null;
+      },
+    );
+  }, [
+    sequenceSignature,
+    segments,
+    playbackTimerRef,
+    loadSequence,
+    getPosition,
+    startSources,
+  ]);
+
+  useEffect(() => {
+    onClipChange?.(segments[clipIndex]?.id ?? null);
+  }, [clipIndex, segments, onClipChange]);
+
+  // Mirror playback in the OS media controls
+  useEffect(() => {
+    if (duration === 0) {
+      setMediaSessionState("none");
+      setMediaSessionPosition(0);
       return;
     }
 
+    setMediaSessionState(isPlaying ? "playing" : "paused");
+    setMediaSessionPosition(duration, getPosition(), speed);
+  }, [isPlaying, duration, speed, getPosition]);
+
+  useEffect(() => {
+    const name = getClipName(clipIndex);
+    const folderName = clipMetadataRef.current[clipIndex]?.folderName;
+
+    // The library is more current than the loaded sequence after a rename;
+    // spacers have no folder and no cover
+    const folder = folders.find((folder) => folder.folderName === folderName);
+
+    setMediaSessionMetadata(
+      name ? { title: folder?.name ?? name, artwork: folder?.coverUrl } : null,
+    );
+  }, [clipIndex, folders, getClipName]);
+
+  // Tracks in the OS media controls are the clips of the sequence
+  useEffect(
+    () =>
+      setMediaSessionHandlers({
+        play: () => {
+          if (!isPlaying && !isLoading && !isStitching) onPlayClick();
+        },
+        pause: () => {
+          if (isPlaying) onPlayClick();
+        },
+        seekto: ({ seekTime }) => {
+          if (seekTime !== undefined) handleSeek(seekTime);
+        },
+        seekbackward: ({ seekOffset }) =>
+          handleSeek(getPosition() - (seekOffset ?? SEEK_STEP)),
+        seekforward: ({ seekOffset }) =>
+          handleSeek(getPosition() + (seekOffset ?? SEEK_STEP)),
+        previoustrack: () => handleClipJump(-1),
+        nexttrack: () => handleClipJump(1),
+      }),
+    [
+      isPlaying,
+      isLoading,
+      isStitching,
+      onPlayClick,
+      handleSeek,
+      handleClipJump,
+      getPosition,
+    ],
+  );
+
+  // Never keep playing the sequence of a project that was switched away from
+  useEffect(() => {
+    if (playbackTimerRef.filesLen === 0) return;
+
     endPlayback();
-  }, [folders, playbackTimerRef, endPlayback]);
+  }, [projectId, playbackTimerRef, endPlayback]);
 
   return (
-    <Controls
-      disabled={isLoading || isStitching}
-      currTime={currTime}
-      duration={duration}
-      isPlaying={isPlaying}
-      onPlayClick={onPlayClick}
-      defaultVolume={playbackTimerRef.volume}
-      onVolumeChange={handleVolumeChange}
-    />
+    <>
+      <Controls
+        disabled={isLoading || isStitching}
+        currTime={currTime}
+        duration={duration}
+        segments={segments}
+        clipName={segments[clipIndex]?.name}
+        isPlaying={isPlaying}
+        onPlayClick={onPlayClick}
+        onPreviousClick={() => handleClipJump(-1)}
+        onNextClick={() => handleClipJump(1)}
+        onSeek={handleSeek}
+        speed={speed}
+        onSpeedChange={isSpeedAvailable ? handleSpeedChange : undefined}
+        volume={volume}
+        isMuted={isMuted}
+        onVolumeChange={handleVolumeChange}
+        onMuteClick={() => setIsMuted(!isMuted)}
+      />
+
+      <VisuallyHidden role="status">{announcement}</VisuallyHidden>
+
+      {speedNotice && (
+        <Toast message={speedNotice} onClose={closeSpeedNotice} />
+      )}
+    </>
   );
 };
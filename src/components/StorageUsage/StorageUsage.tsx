@@ -0,0 +1,149 @@
+import { useState } from "react";
+import {
+  Badge,
+  Button,
+  Callout,
+  Dialog,
+  Flex,
+  Heading,
+  Progress,
+  ScrollArea,
+  Text,
+} from "@radix-ui/themes";
+
+import { useOpfsDirectories, useStorageUsage } from "../../hooks";
+import { LOW_STORAGE_RATIO, formatBytes } from "../../utils";
+
+export const StorageUsage = () => {
+  const { estimate, projects, refresh, persist } = useStorageUsage();
+  const { projectId, folders } = useOpfsDirectories();
+
+  const [open, setOpen] = useState(false);
+
+  const ratio = estimate?.quota ? estimate.usage / estimate.quota : 0;
+  const isLow = ratio >= LOW_STORAGE_RATIO;
+  const clips = [...folders].sort((a, b) => b.size - a.size);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) refresh();
+    setOpen(nextOpen);
+  };
+
+  const handlePersist = async () => {
+    try {
+      if (!(await persist())) {
+        alert(
+          "The browser declined to keep storage persistent. Installing the app or bookmarking it can help.",
+        );
+      }
+    } catch {
+      alert("Failed to request persistent storage. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>
+        <Button variant="soft" color={isLow ? "orange" : "gray"}>
+          Storage
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>Storage</Dialog.Title>
+
+        {estimate ? (
+          <Flex direction="column" gap="2" mb="4">
+            <Progress
+              value={ratio * 100}
+              color={isLow ? "orange" : undefined}
+            />
+            <Text size="2">
+              {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}{" "}
+              used · {formatBytes(estimate.available)} free
+            </Text>
+          </Flex>
+        ) : (
+          <Text as="p" size="2" color="gray" mb="4">
+            This browser doesn't report how much space is left.
+          </Text>
+        )}
+
+        {isLow && (
+          <Callout.Root color="orange" size="1" mb="4">
+            <Callout.Text>
+              Storage is almost full. Empty the trash or delete clips you no
+              longer need before uploading more.
+            </Callout.Text>
+          </Callout.Root>
+        )}
+
+        {estimate && (
+          <Flex justify="between" align="center" gap="3" mb="4">
+            <Text size="2">
+              {estimate.persisted
+                ? "Clips are kept even when the device runs low on space."
+                : "The browser may clear clips when the device runs low on space."}
+            </Text>
+            {!estimate.persisted && (
+              <Button size="1" variant="soft" onClick={handlePersist}>
+                Keep clips
+              </Button>
+            )}
+          </Flex>
+        )}
+
+        <ScrollArea
+          type="auto"
+          scrollbars="vertical"
+          style={{ maxHeight: 360 }}
+        >
+          <Flex direction="column" gap="4" pr="3">
+            <Flex direction="column" gap="2">
+              <Heading size="2">Projects</Heading>
+              {projects.map(({ project, size }) => (
+                <Flex key={project.id} justify="between" gap="3">
+                  <Flex align="center" gap="2" minWidth="0">
+                    <Text size="2" truncate>
+                      {project.name}
+                    </Text>
+                    {project.id === projectId && (
+                      <Badge size="1" color="gray">
+                        Open
+                      </Badge>
+                    )}
+                  </Flex>
+                  <Text size="2" color="gray">
+                    {formatBytes(size)}
+                  </Text>
+                </Flex>
+              ))}
+            </Flex>
+
+            <Flex direction="column" gap="2">
+              <Heading size="2">Clips in this project</Heading>
+              {clips.map(({ folderName, name, size }) => (
+                <Flex key={folderName} justify="between" gap="3">
+                  <Text size="2" truncate title={name}>
+                    {name}
+                  </Text>
+                  <Text size="2" color="gray">
+                    {formatBytes(size)}
+                  </Text>
+                </Flex>
+              ))}
+            </Flex>
+          </Flex>
+        </ScrollArea>
+
+        <Flex gap="3" mt="5" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Close
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
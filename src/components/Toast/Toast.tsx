@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { Button, Card, Flex, Text } from "@radix-ui/themes";
+
+import styles from "./Toast.module.css";
+
+interface Toast {
+  message: string;
+  actionLabel?: string;
+  onAction?: VoidFunction;
+  onClose: VoidFunction; // Keep it stable, as a new one restarts the timer
+  duration?: number; // ms before closing by itself
+}
+
+const DEFAULT_DURATION = 8000;
+
+/**
+ * Short-lived notice with an optional action; mount it only while it should be
+ * shown, with a new key for every notice
+ */
+export const Toast = ({
+  message,
+  actionLabel,
+  onAction,
+  onClose,
+  duration = DEFAULT_DURATION,
+}: Toast) => {
+  useEffect(() => {
+    const timeout = setTimeout(onClose, duration);
+    return () => clearTimeout(timeout);
+  }, [onClose, duration]);
+
+  return (
+    <Card size="2" className={styles.toast} role="status">
+      <Flex align="center" gap="4">
+        <Text size="2" truncate>
+          {message}
+        </Text>
+
+        {actionLabel && onAction && (
+          <Button size="1" variant="soft" onClick={onAction}>
+            {actionLabel}
+          </Button>
+        )}
+        <Button size="1" variant="ghost" color="gray" onClick={onClose}>
+          Dismiss
+        </Button>
+      </Flex>
+    </Card>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import {
+  Button,
+  Dialog,
+  Flex,
+  ScrollArea,
+  Select,
+  Slider,
+  Text,
+} from "@radix-ui/themes";
+
+import { useOpfsDirectories } from "../../hooks";
+import {
+  getTransition,
+  type AudioMetadata,
+  type Crossfade,
+  type CrossfadeCurve,
+} from "../../utils";
+
+const CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  linear: "Linear",
+  "equal-power": "Equal power",
+  exponential: "Exponential",
+};
+
+const NO_CROSSFADE = "none";
+const DEFAULT_DURATION = 2; // in sec
+const MAX_DURATION = 10; // in sec
+
+interface TransitionRow {
+  from: AudioMetadata;
+  to: AudioMetadata;
+  crossfade?: Crossfade;
+  onChange: (crossfade: Crossfade | null) => void;
+}
+
+const TransitionRow = ({ from, to, crossfade, onChange }: TransitionRow) => {
+  // Track the slider locally so dragging doesn't write to OPFS on every step
+  const [duration, setDuration] = useState(
+    crossfade?.duration ?? DEFAULT_DURATION,
+  );
+
+  const handleCurveChange = (value: string) => {
+    onChange(
+      value === NO_CROSSFADE
+        ? null
+        : { duration, curve: value as CrossfadeCurve },
+    );
+  };
+
+  return (
+    <Flex direction="column" gap="2" py="2">
+      <Text size="2" truncate>
+        {from.name} → {to.name}
+      </Text>
+
+      <Flex gap="3" align="center">
+        <Select.Root
+          size="1"
+          value={crossfade?.curve ?? NO_CROSSFADE}
+          onValueChange={handleCurveChange}
+        >
+          <Select.Trigger style={{ width: 120 }} />
+          <Select.Content>
+            <Select.Item value={NO_CROSSFADE}>Hard cut</Select.Item>
+            {Object.entries(CURVE_LABELS).map(([curve, label]) => (
+              <Select.Item key={curve} value={curve}>
+                {label}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+
+        <Slider
+          size="1"
+          disabled={!crossfade}
+          value={[duration]}
+          onValueChange={(value) => setDuration(value[0])}
+          onValueCommit={(value) =>
+            crossfade && onChange({ ...crossfade, duration: value[0] })
+          }
+          min={0.1}
+          max={MAX_DURATION}
+          step={0.1}
+        />
+
+        <Text size="1" color="gray" style={{ minWidth: 36 }}>
+          {duration.toFixed(1)}s
+        </Text>
+      </Flex>
+    </Flex>
+  );
+};
+
+export const Transitions = () => {
+  const { entries, transitions, setTransition } = useOpfsDirectories();
+
+  // A spacer between two clips keeps them apart, so only adjacent clips can crossfade
+  const pairs = entries.flatMap((entry, i) => {
+    const next = entries[i + 1];
+    return entry.type === "clip" && next?.type === "clip"
+      ? [{ from: entry.clip, to: next.clip }]
+      : [];
+  });
+
+  return (
+    <Dialog.Root>
+      <Dialog.Trigger>
+        <Button variant="soft" disabled={pairs.length === 0}>
+          Transitions
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>Transitions</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Overlap consecutive clips with a crossfade instead of a hard cut.
+        </Dialog.Description>
+
+        <ScrollArea
+          type="auto"
+          scrollbars="vertical"
+          style={{ maxHeight: 360 }}
+        >
+          <Flex direction="column" pr="3">
+            {pairs.map(({ from, to }) => (
+              <TransitionRow
+                key={`${from.folderName}/${to.folderName}`}
+                from={from}
+                to={to}
+                crossfade={getTransition(
+                  transitions,
+                  from.folderName,
+                  to.folderName,
+                )}
+                onChange={(crossfade) =>
+                  setTransition(
+                    from.folderName,
+                    to.folderName,
+                    crossfade,
+                  ).catch(() =>
+                    alert("Failed to save the transition. Please try again."),
+                  )
+                }
+              />
+            ))}
+          </Flex>
+        </ScrollArea>
+
+        <Flex mt="5" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Close
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  Button,
+  Dialog,
+  Flex,
+  ScrollArea,
+  Text,
+} from "@radix-ui/themes";
+
+import { useTrash } from "../../hooks";
+import { TRASH_RETENTION_DAYS } from "../../utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashBin = () => {
+  const { items, restore, remove, empty } = useTrash();
+
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(0);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Read the clock once per opening for the days left
+    if (nextOpen) setNow(Date.now());
+    setOpen(nextOpen);
+  };
+
+  const run = async (folderName: string, action: typeof restore) => {
+    setBusyId(folderName);
+
+    try {
+      await action(folderName);
+    } catch {
+      alert("Failed to update the trash. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      await empty();
+    } catch {
+      alert("Failed to empty the trash. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>
+        <Button variant="soft" color="gray">
+          Trash{items.length > 0 && ` (${items.length})`}
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content maxWidth="480px">
+        <Dialog.Title>Trash</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Deleted clips are kept for {TRASH_RETENTION_DAYS} days before they are
+          removed for good.
+        </Dialog.Description>
+
+        {items.length === 0 ? (
+          <Text size="2" color="gray">
+            The trash is empty.
+          </Text>
+        ) : (
+          <ScrollArea
+            type="auto"
+            scrollbars="vertical"
+            style={{ maxHeight: 320 }}
+          >
+            <Flex direction="column" gap="3" pr="3">
+              {items.map(({ folderName, metadata, expiresAt }) => (
+                <Flex key={folderName} justify="between" align="center" gap="3">
+                  <Flex direction="column" minWidth="0">
+                    <Text size="2" truncate title={metadata.name}>
+                      {metadata.name}
+                    </Text>
+                    <Text size="1" color="gray">
+                      {Math.max(0, Math.ceil((expiresAt - now) / DAY_MS))} days
+                      left
+                    </Text>
+                  </Flex>
+
+                  <Flex gap="2" flexShrink="0">
+                    <Button
+                      size="1"
+                      variant="soft"
+                      disabled={busyId !== null}
+                      loading={busyId === folderName}
+                      onClick={() => run(folderName, restore)}
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      size="1"
+                      variant="ghost"
+                      color="red"
+                      disabled={busyId !== null}
+                      onClick={() => run(folderName, remove)}
+                    >
+                      Delete
+                    </Button>
+                  </Flex>
+                </Flex>
+              ))}
+            </Flex>
+          </ScrollArea>
+        )}
+
+        <Flex gap="3" mt="5" justify="end">
+          {items.length > 0 && (
+            <AlertDialog.Root>
+              <AlertDialog.Trigger>
+                <Button variant="soft" color="red">
+                  Empty trash
+                </Button>
+              </AlertDialog.Trigger>
+              <AlertDialog.Content maxWidth="420px">
+                <AlertDialog.Title>Empty the trash?</AlertDialog.Title>
+                <AlertDialog.Description size="2">
+                  {items.length} {items.length === 1 ? "clip" : "clips"} will be
+                  removed for good. This can't be undone.
+                </AlertDialog.Description>
+
+                <Flex gap="3" mt="5" justify="end">
+                  <AlertDialog.Cancel>
+                    <Button variant="soft" color="gray">
+                      Cancel
+                    </Button>
+                  </AlertDialog.Cancel>
+                  <AlertDialog.Action>
+                    <Button color="red" onClick={handleEmpty}>
+                      Empty trash
+                    </Button>
+                  </AlertDialog.Action>
+                </Flex>
+              </AlertDialog.Content>
+            </AlertDialog.Root>
+          )}
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Close
+            </Button>
+          </Dialog.Close>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
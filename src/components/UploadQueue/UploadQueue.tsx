@@ -0,0 +1,116 @@
+import {
+  Button,
+  Card,
+  Flex,
+  Progress,
+  ScrollArea,
+  Text,
+} from "@radix-ui/themes";
+
+import type { UploadItem, UploadStatus } from "../../hooks";
+
+import styles from "./UploadQueue.module.css";
+
+interface UploadQueue {
+  items: UploadItem[];
+  rejected: File[]; // Files that aren't audio and were never queued
+  onSkip: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClear: VoidFunction;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  pending: "Waiting",
+  uploading: "Uploading",
+  done: "Done",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+export const UploadQueue = ({
+  items,
+  rejected,
+  onSkip,
+  onRetry,
+  onClear,
+}: UploadQueue) => {
+  if (items.length === 0 && rejected.length === 0) return null;
+
+  const doneCount = items.filter(({ status }) => status === "done").length;
+  const isActive = items.some(
+    ({ status }) => status === "pending" || status === "uploading",
+  );
+
+  return (
+    <Card size="2" className={styles.panel}>
+      <Flex justify="between" align="center" mb="3">
+        <Text size="2" weight="medium">
+          Uploaded {doneCount} of {items.length}
+        </Text>
+        <Button size="1" variant="ghost" color="gray" onClick={onClear}>
+          {isActive ? "Clear finished" : "Close"}
+        </Button>
+      </Flex>
+
+      <ScrollArea type="auto" scrollbars="vertical" style={{ maxHeight: 240 }}>
+        <Flex direction="column" gap="3" pr="3">
+          {items.map(({ id, file, status, progress, error }) => (
+            <Flex key={id} direction="column" gap="1">
+              <Flex justify="between" align="center" gap="2">
+                <Text size="1" truncate title={file.name}>
+                  {file.name}
+                </Text>
+
+                {status === "pending" && (
+                  <Button
+                    size="1"
+                    variant="ghost"
+                    color="gray"
+                    onClick={() => onSkip(id)}
+                  >
+                    Skip
+                  </Button>
+                )}
+                {(status === "failed" || status === "skipped") && (
+                  <Button size="1" variant="ghost" onClick={() => onRetry(id)}>
+                    {status === "failed" ? "Retry" : "Upload"}
+                  </Button>
+                )}
+              </Flex>
+
+              {status === "uploading" ? (
+                <Progress size="1" value={progress * 100} />
+              ) : (
+                <Text
+                  size="1"
+                  color={status === "failed" ? "red" : "gray"}
+                  title={error}
+                >
+                  {STATUS_LABELS[status]}
+                </Text>
+              )}
+            </Flex>
+          ))}
+        </Flex>
+      </ScrollArea>
+
+      {rejected.length > 0 && (
+        <Flex direction="column" gap="1" mt="3">
+          <Text size="1" color="amber">
+            {rejected.length}{" "}
+            {rejected.length === 1 ? "file was" : "files were"} not recognised
+            as audio:
+          </Text>
+          <Text
+            size="1"
+            color="gray"
+            truncate
+            title={rejected.map(({ name }) => name).join("\n")}
+          >
+            {rejected.map(({ name }) => name).join(", ")}
+          </Text>
+        </Flex>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react";
+
+import { drawWaveform } from "../../utils";
+
+interface Waveform {
+  peaks: Float32Array | null;
+  color: string;
+  height?: number; // in px
+  selection?: [number, number]; // Highlighted range as fractions (0-1)
+}
+
+export const Waveform = ({
+  peaks,
+  color,
+  height = 96,
+  selection,
+}: Waveform) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    // Match the backing store to the rendered size for crisp bars
+    canvas.width = canvas.clientWidth * window.devicePixelRatio;
+    canvas.height = canvas.clientHeight * window.devicePixelRatio;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (!peaks) return;
+
+    drawWaveform(ctx, peaks, color);
+
+    if (selection) {
+      // Dim everything outside the selection
+      const [start, end] = selection;
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.fillRect(0, 0, start * canvas.width, canvas.height);
+      ctx.fillRect(
+        end * canvas.width,
+        0,
+        (1 - end) * canvas.width,
+        canvas.height,
+      );
+    }
+  }, [peaks, color, selection]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{
+        width: "100%",
+        height,
+        display: "block",
+        borderRadius: "var(--radius-2)",
+        backgroundColor: "var(--gray-a3)",
+      }}
+    />
+  );
+};
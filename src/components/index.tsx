@@ -2,3 +2,15 @@ export * from "./Hover";
 export * from "./AddNew";
 export * from "./Cards";
 export * from "./StitchAudio";
+export * from "./ExportAudio";
+export * from "./Transitions";
+export * from "./Waveform";
+export * from "./ClipDetails";
+export * from "./SequenceSettings";
+export * from "./RegenerateCovers";
+export * from "./UploadQueue";
+export * from "./ProjectSwitcher";
+export * from "./Spacer";
+export * from "./Toast";
+export * from "./TrashBin";
+export * from "./StorageUsage";
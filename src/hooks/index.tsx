@@ -1 +1,5 @@
 export * from "./useOpfsDirectories";
+export * from "./useUploadQueue";
+export * from "./useProjects";
+export * from "./useTrash";
+export * from "./useStorageUsage";
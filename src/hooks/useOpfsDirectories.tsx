@@ -1,112 +1,307 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useCallback, useMemo, useSyncExternalStore } from "react";
 
 import {
   OpfsStorage,
   OPFS_CHANGE_EVENT,
+  DEFAULT_PROJECT_SETTINGS,
+  PROJECT_CHANGE_EVENT,
+  appendManifestSpacer,
+  getActiveProjectId,
+  getClipPath,
+  getProjectPath,
+  getSequenceEntries,
+  getTransition,
+  inspectClip,
+  isClipId,
+  migrateClipFolders,
+  openProjects,
+  readAudioMetadata,
+  readManifest,
+  removeFromManifest,
+  resolveCoverUrl,
+  saveManifestOrder,
+  saveManifestSettings,
+  saveManifestSpacer,
+  saveManifestTransition,
+  sortByManifest,
+  trashClip,
+  updateAudioMetadata,
   type OpfsChangeDetail,
   type AudioMetadata,
+  type ClipFile,
+  type Crossfade,
+  type ProjectSettings,
+  type SequenceEntry,
 } from "../utils";
 
 /**
- * Custom hook to reactively track OPFS directories
- * Automatically updates when files are added or removed
+ * A clip folder as exposed to components
  */
-export const useOpfsDirectories = () => {
-  const [folders, setFolders] = useState<AudioMetadata[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+export interface AudioFolder extends AudioMetadata {
+  coverUrl: string; // Displayable cover (object URL for generated covers)
+}
+
+// Clips already queued for inspection (by path, as duplicated projects share
+// folder names), shared by every mounted instance of the hook
+const inspectedFolders = new Set<string>();
+
+/**
+ * Everything loaded for the active project, shared by every mounted instance
+ * of the hook
+ */
+interface DirectoriesState {
+  projectId: string | null;
+  folders: AudioFolder[];
+  order: string[];
+  spacers: Record<string, number>;
+  transitions: Record<string, Crossfade>;
+  settings: ProjectSettings;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+const INITIAL_STATE: DirectoriesState = {
+  projectId: null,
+  folders: [],
+  order: [],
+  spacers: {},
+  transitions: {},
+  settings: DEFAULT_PROJECT_SETTINGS,
+  isLoading: true,
+  error: null,
+};
+
+let state = INITIAL_STATE;
+const listeners = new Set<VoidFunction>();
+
+// Object URLs of the covers in state, released when they're replaced
+let coverUrls: string[] = [];
+
+const setState = (changes: Partial<DirectoriesState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+// Record the duration of clips uploaded before it was inspected at upload,
+// one at a time since reading a whole file may be needed to decode it
+const inspectPendingFolders = async (folders: AudioFolder[]) => {
+  const pending = folders.filter(
+    ({ duration, folderName }) =>
+      duration === undefined &&
+      !inspectedFolders.has(getProjectPath(folderName)),
+  );
+  pending.forEach(({ folderName }) =>
+    inspectedFolders.add(getProjectPath(folderName)),
+  );
 
-  const loadFolders = useCallback(async () => {
+  for (const folder of pending) {
     try {
-      const directories = await OpfsStorage.listDirectories();
-
-      // Load metadata for each directory
-      const foldersWithMetadata = (
-        await Promise.all(
-          directories.map(async (name) => {
-            // Try to load metadata.json from the folder
-            const metadataPath = `${name}/metadata.json`;
-            const buffer = await OpfsStorage.readFile(metadataPath);
-            const text = new TextDecoder().decode(buffer);
-            return JSON.parse(text) as AudioMetadata;
-          }),
-        )
-      ).sort((a, b) => b.uploadedAt - a.uploadedAt);
-
-      setFolders(foldersWithMetadata);
-      setError(null);
+      await inspectClip(folder);
     } catch (err) {
-      console.error("Failed to load folders from OPFS:", err);
-      setError(err instanceof Error ? err : new Error("Unknown error"));
-    } finally {
-      setIsLoading(false);
+      console.warn(`Failed to inspect ${folder.folderName}:`, err);
     }
-  }, []);
+  }
+};
+
+const readFolders = async () => {
+  try {
+    await openProjects();
+    const activeProjectId = getActiveProjectId();
+
+    await migrateClipFolders();
+
+    const directories = await OpfsStorage.listDirectories(getProjectPath());
+    const manifest = await readManifest();
+
+    // Load metadata for each directory
+    const metadata = await Promise.all(
+      directories.filter(isClipId).map(async (name) => {
+        try {
+          return await readAudioMetadata(name);
+        } catch (err) {
+          // Uploads write metadata.json last, so a clip still being saved
+          // shows up once it's complete
+          console.warn(`Failed to read metadata of ${name}:`, err);
+          return null;
+        }
+      }),
+    );
+    const foldersWithMetadata = sortByManifest(
+      metadata.filter((item) => item !== null),
+      manifest.order,
+      (metadata) => metadata,
+    );
+
+    const foldersWithCovers = await Promise.all(
+      foldersWithMetadata.map(async (metadata) => ({
+        ...metadata,
+        coverUrl: await resolveCoverUrl(metadata),
+      })),
+    );
+
+    // The project was switched while loading; the load it triggered wins
+    if (activeProjectId !== getActiveProjectId()) {
+      foldersWithCovers.forEach(({ coverUrl }) =>
+        URL.revokeObjectURL(coverUrl),
+      );
+      return;
+    }
+
+    // Release the object URLs created by the previous load
+    coverUrls.forEach((url) => URL.revokeObjectURL(url));
+    coverUrls = foldersWithCovers
+      .map(({ coverUrl }) => coverUrl)
+      .filter((url) => url.startsWith("blob:"));
+
+    setState({
+      projectId: activeProjectId,
+      folders: foldersWithCovers,
+      order: manifest.order,
+      spacers: manifest.spacers,
+      transitions: manifest.transitions,
+      settings: manifest.settings,
+      error: null,
+    });
+
+    inspectPendingFolders(foldersWithCovers);
+  } catch (err) {
+    console.error("Failed to load folders from OPFS:", err);
+    setState({
+      error: err instanceof Error ? err : new Error("Unknown error"),
+    });
+  } finally {
+    setState({ isLoading: false });
+  }
+};
+
+let loading: Promise<void> | null = null;
+let isReloadRequested = false;
+
+/**
+ * Load the active project, once more after the current load if changes come
+ * in while it runs, so a burst of changes only reads everything twice
+ */
+const loadFolders = (): Promise<void> => {
+  if (loading) {
+    isReloadRequested = true;
+    return loading;
+  }
+
+  loading = (async () => {
+    do {
+      isReloadRequested = false;
+      await readFolders();
+    } while (isReloadRequested);
+
+    loading = null;
+  })();
+
+  return loading;
+};
+
+const handleOpfsChange = (event: Event) => {
+  const { type, path } = (event as CustomEvent<OpfsChangeDetail>).detail;
 
-  // Initial load
-  useEffect(() => {
+  console.log(`OPFS change detected: ${type} at ${path}`);
+
+  // Reload folders when a file is added (which creates a directory)
+  if (
+    type === "file-added" ||
+    type === "directory-added" ||
+    type === "file-deleted" ||
+    type === "directory-deleted"
+  ) {
     loadFolders();
-  }, [loadFolders]);
-
-  const handleOpfsChange = useCallback(
-    (event: Event) => {
-      const customEvent = event as CustomEvent<OpfsChangeDetail>;
-      const { type, path } = customEvent.detail;
-
-      console.log(`OPFS change detected: ${type} at ${path}`);
-
-      // Reload folders when a file is added (which creates a directory)
-      if (
-        type === "file-added" ||
-        type === "directory-added" ||
-        type === "file-deleted" ||
-        type === "directory-deleted"
-      ) {
-        loadFolders();
-      }
-    },
-    [loadFolders],
-  );
+  }
+};
 
-  // Listen for OPFS changes
-  useEffect(() => {
+// Show the newly opened project
+const handleProjectChange = () => {
+  setState({ isLoading: true });
+  loadFolders();
+};
+
+/**
+ * Load with the first mounted instance of the hook, and stop listening for
+ * changes once the last one unmounts
+ */
+const subscribe = (listener: VoidFunction) => {
+  listeners.add(listener);
+
+  if (listeners.size === 1) {
+    window.addEventListener(PROJECT_CHANGE_EVENT, handleProjectChange);
     window.addEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+    loadFolders();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
 
-    return () => {
-      window.removeEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
-    };
-  }, [handleOpfsChange]);
+    window.removeEventListener(PROJECT_CHANGE_EVENT, handleProjectChange);
+    window.removeEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+
+    // Release cover object URLs; the next mount loads afresh
+    coverUrls.forEach((url) => URL.revokeObjectURL(url));
+    coverUrls = [];
+    state = INITIAL_STATE;
+  };
+};
+
+const getSnapshot = () => state;
+
+/**
+ * Custom hook to reactively track the clip folders of the active project
+ * Automatically updates when files are added or removed, or the project changes
+ * Every instance shares one load, so mounting it in more components is cheap
+ */
+export const useOpfsDirectories = () => {
+  const {
+    projectId,
+    folders,
+    order,
+    spacers,
+    transitions,
+    settings,
+    isLoading,
+    error,
+  } = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Clips interleaved with spacers, in playback order
+  const entries = useMemo(
+    () => getSequenceEntries(folders, order, spacers, (metadata) => metadata),
+    [folders, order, spacers],
+  );
 
   const getAllFiles = useCallback(async (): Promise<
-    Array<{ metadata: AudioMetadata; buffer: ArrayBuffer }>
+    SequenceEntry<ClipFile>[]
   > => {
-    const directories = await OpfsStorage.listDirectories();
+    const directories = await OpfsStorage.listDirectories(getProjectPath());
+    const { order, transitions, spacers } = await readManifest();
 
-    const buffers = await Promise.all(
-      directories.map(async (folderName) => {
+    const clips = await Promise.all(
+      directories.filter(isClipId).map(async (folderName) => {
         try {
           // Get all files in the directory
-          const files = await OpfsStorage.listFiles(folderName);
+          const files = await OpfsStorage.listFiles(getProjectPath(folderName));
 
-          // Find the audio file (exclude metadata.json)
-          const audioFile = files.find((file) => file !== "metadata.json");
+          // Read the metadata
+          const metadata = await readAudioMetadata(folderName);
 
-          if (!audioFile) {
+          // The folder also holds metadata.json and the cover, so only trust
+          // the file name recorded in the metadata
+          if (!files.includes(metadata.fileName)) {
             console.warn(`No audio file found in folder: ${folderName}`);
             return null;
           }
 
-          // Read the metadata
-          const metadataPath = `${folderName}/metadata.json`;
-          const metadataBuffer = await OpfsStorage.readFile(metadataPath);
-          const metadataText = new TextDecoder().decode(metadataBuffer);
-          const metadata = JSON.parse(metadataText) as AudioMetadata;
+          // The audio itself is only read if it isn't decoded and cached yet
+          const audioPath = getClipPath(folderName, metadata.fileName);
 
-          // Read the audio file buffer
-          const audioPath = `${folderName}/${audioFile}`;
-          const buffer = await OpfsStorage.readFile(audioPath);
-
-          return { metadata, buffer };
+          return {
+            metadata,
+            read: () => OpfsStorage.readFile(audioPath),
+          };
         } catch (err) {
           console.error(`Failed to read files from folder ${folderName}:`, err);
           return null;
@@ -114,27 +309,174 @@ export const useOpfsDirectories = () => {
       }),
     );
 
-    // Filter out null values (failed reads) and sort by uploadedAt descending
-    return buffers
-      .filter(
-        (item): item is { metadata: AudioMetadata; buffer: ArrayBuffer } =>
-          item !== null,
-      )
-      .sort((a, b) => b.metadata.uploadedAt - a.metadata.uploadedAt);
+    // Filter out null values (failed reads), sort by the manifest order and
+    // slot the spacers in between
+    const entries = getSequenceEntries<ClipFile>(
+      sortByManifest(
+        clips.filter((item) => item !== null),
+        order,
+        ({ metadata }) => metadata,
+      ),
+      order,
+      spacers,
+      ({ metadata }) => metadata,
+    );
+
+    // Transitions belong to the pair of items they join
+    return entries.map((entry, i) =>
+      entry.type === "clip"
+        ? {
+            ...entry,
+            clip: {
+              ...entry.clip,
+              crossfade: getTransition(
+                transitions,
+                entry.id,
+                entries[i + 1]?.id,
+              ),
+            },
+          }
+        : entry,
+    );
   }, []);
 
+  // Clips go to the trash, from where they can be restored
   const deleteFolder = useCallback(async (folderName: string) => {
     try {
-      await OpfsStorage.deleteDirectory(folderName);
-      console.log(`Successfully deleted folder: ${folderName}`);
+      await trashClip(folderName);
+      console.log(`Successfully moved folder to trash: ${folderName}`);
     } catch (err) {
       console.error(`Failed to delete folder ${folderName}:`, err);
       throw err;
     }
   }, []);
 
+  const updateFolder = useCallback(
+    async (folderName: string, changes: Partial<AudioMetadata>) => {
+      try {
+        return await updateAudioMetadata(folderName, changes);
+      } catch (err) {
+        console.error(`Failed to update metadata for ${folderName}:`, err);
+        throw err;
+      }
+    },
+    [],
+  );
+
+  const reorderFolders = useCallback(async (nextOrder: string[]) => {
+    const previousOrder = state.order;
+
+    // Apply the new order immediately so the grid doesn't jump back while saving
+    setState({
+      folders: sortByManifest(state.folders, nextOrder, (metadata) => metadata),
+      order: nextOrder,
+    });
+
+    try {
+      await saveManifestOrder(nextOrder);
+    } catch (err) {
+      console.error("Failed to save clip order:", err);
+
+      // Go back to the order that's still saved
+      setState({
+        folders: sortByManifest(
+          state.folders,
+          previousOrder,
+          (metadata) => metadata,
+        ),
+        order: previousOrder,
+      });
+      throw err;
+    }
+  }, []);
+
+  const addSpacer = useCallback(async (duration: number) => {
+    try {
+      return await appendManifestSpacer(duration);
+    } catch (err) {
+      console.error("Failed to add spacer:", err);
+      throw err;
+    }
+  }, []);
+
+  const updateSpacer = useCallback(async (id: string, duration: number) => {
+    try {
+      await saveManifestSpacer(id, duration);
+    } catch (err) {
+      console.error(`Failed to update spacer ${id}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const removeSpacer = useCallback(async (id: string) => {
+    try {
+      await removeFromManifest(id);
+    } catch (err) {
+      console.error(`Failed to remove spacer ${id}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const setTransition = useCallback(
+    async (from: string, to: string, crossfade: Crossfade | null) => {
+      try {
+        await saveManifestTransition(from, to, crossfade);
+      } catch (err) {
+        console.error(`Failed to save transition from ${from}:`, err);
+        throw err;
+      }
+    },
+    [],
+  );
+
+  const updateSettings = useCallback(
+    async (changes: Partial<ProjectSettings>) => {
+      try {
+        await saveManifestSettings(changes);
+      } catch (err) {
+        console.error("Failed to save project settings:", err);
+        throw err;
+      }
+    },
+    [],
+  );
+
   return useMemo(
-    () => ({ folders, isLoading, error, getAllFiles, deleteFolder }),
-    [folders, isLoading, error, getAllFiles, deleteFolder],
+    () => ({
+      projectId,
+      folders,
+      entries,
+      transitions,
+      settings,
+      isLoading,
+      error,
+      getAllFiles,
+      deleteFolder,
+      updateFolder,
+      reorderFolders,
+      addSpacer,
+      updateSpacer,
+      removeSpacer,
+      setTransition,
+      updateSettings,
+    }),
+    [
+      projectId,
+      folders,
+      entries,
+      transitions,
+      settings,
+      isLoading,
+      error,
+      getAllFiles,
+      deleteFolder,
+      updateFolder,
+      reorderFolders,
+      addSpacer,
+      updateSpacer,
+      removeSpacer,
+      setTransition,
+      updateSettings,
+    ],
   );
 };
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+import {
+  OPFS_CHANGE_EVENT,
+  PROJECT_CHANGE_EVENT,
+  PROJECTS_DIR,
+  createProject,
+  deleteProject,
+  downloadBlob,
+  duplicateProject,
+  exportProjectArchive,
+  getActiveProjectId,
+  importProjectArchive,
+  listProjects,
+  openProjects,
+  renameProject,
+  setActiveProject,
+  type ImportArchiveOptions,
+  type ImportArchiveResult,
+  type OpfsChangeDetail,
+  type ProjectInfo,
+} from "../utils";
+
+// Only changes to a project directory itself or its project.json matter here
+const PROJECT_PATH_PATTERN = new RegExp(
+  `^${PROJECTS_DIR}/[^/]+(/project\\.json)?$`,
+);
+
+/**
+ * Custom hook to list projects and switch between them
+ */
+export const useProjects = () => {
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      const projects = await listProjects();
+
+      setProjects(projects);
+      setActiveProjectId(getActiveProjectId());
+    } catch (err) {
+      console.error("Failed to load projects:", err);
+    }
+  }, []);
+
+  // Initial load, once the last used project has been opened
+  useEffect(() => {
+    openProjects().then(loadProjects, (err) =>
+      console.error("Failed to open projects:", err),
+    );
+  }, [loadProjects]);
+
+  useEffect(() => {
+    const handleOpfsChange = (event: Event) => {
+      const { path } = (event as CustomEvent<OpfsChangeDetail>).detail;
+      if (PROJECT_PATH_PATTERN.test(path)) loadProjects();
+    };
+
+    window.addEventListener(PROJECT_CHANGE_EVENT, loadProjects);
+    window.addEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+
+    return () => {
+      window.removeEventListener(PROJECT_CHANGE_EVENT, loadProjects);
+      window.removeEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+    };
+  }, [loadProjects]);
+
+  const switchProject = useCallback((projectId: string) => {
+    setActiveProject(projectId);
+  }, []);
+
+  const addProject = useCallback(async (name: string) => {
+    try {
+      const project = await createProject(name);
+      setActiveProject(project.id);
+    } catch (err) {
+      console.error("Failed to create project:", err);
+      throw err;
+    }
+  }, []);
+
+  const updateProjectName = useCallback(
+    async (projectId: string, name: string) => {
+      try {
+        await renameProject(projectId, name);
+      } catch (err) {
+        console.error(`Failed to rename project ${projectId}:`, err);
+        throw err;
+      }
+    },
+    [],
+  );
+
+  const copyProject = useCallback(async (projectId: string, name: string) => {
+    try {
+      const project = await duplicateProject(projectId, name);
+      setActiveProject(project.id);
+    } catch (err) {
+      console.error(`Failed to duplicate project ${projectId}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const removeProject = useCallback(async (projectId: string) => {
+    try {
+      await deleteProject(projectId);
+    } catch (err) {
+      console.error(`Failed to delete project ${projectId}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const exportProject = useCallback(async (project: ProjectInfo) => {
+    try {
+      const archive = await exportProjectArchive(project.id);
+      downloadBlob(archive, `${project.name}.zip`);
+    } catch (err) {
+      console.error(`Failed to export project ${project.id}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const importProject = useCallback(
+    async (
+      file: File,
+      options: ImportArchiveOptions,
+    ): Promise<ImportArchiveResult> => {
+      try {
+        return await importProjectArchive(file, options);
+      } catch (err) {
+        console.error(`Failed to import ${file.name}:`, err);
+        throw err;
+      }
+    },
+    [],
+  );
+
+  const activeProject =
+    projects.find(({ id }) => id === activeProjectId) ?? null;
+
+  return useMemo(
+    () => ({
+      projects,
+      activeProject,
+      switchProject,
+      addProject,
+      updateProjectName,
+      copyProject,
+      removeProject,
+      exportProject,
+      importProject,
+    }),
+    [
+      projects,
+      activeProject,
+      switchProject,
+      addProject,
+      updateProjectName,
+      copyProject,
+      removeProject,
+      exportProject,
+      importProject,
+    ],
+  );
+};
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+import {
+  OPFS_CHANGE_EVENT,
+  getStorageEstimate,
+  listProjectUsage,
+  requestPersistentStorage,
+  type ProjectUsage,
+  type StorageEstimate,
+} from "../utils";
+
+/**
+ * Custom hook to track how much of the origin's storage quota is in use
+ * Asks for persistent storage once mounted, so the browser doesn't evict clips
+ */
+export const useStorageUsage = () => {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [projects, setProjects] = useState<ProjectUsage[]>([]);
+
+  const loadEstimate = useCallback(async () => {
+    try {
+      setEstimate(await getStorageEstimate());
+    } catch (err) {
+      console.error("Failed to estimate storage:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    requestPersistentStorage()
+      .catch((err) => console.warn("Failed to request persistence:", err))
+      .then(loadEstimate);
+  }, [loadEstimate]);
+
+  useEffect(() => {
+    window.addEventListener(OPFS_CHANGE_EVENT, loadEstimate);
+    return () => window.removeEventListener(OPFS_CHANGE_EVENT, loadEstimate);
+  }, [loadEstimate]);
+
+  // Walking every project is slow, so project sizes are only measured on demand
+  const refresh = useCallback(async () => {
+    await loadEstimate();
+
+    try {
+      setProjects(await listProjectUsage());
+    } catch (err) {
+      console.error("Failed to measure projects:", err);
+    }
+  }, [loadEstimate]);
+
+  const persist = useCallback(async () => {
+    try {
+      const persisted = await requestPersistentStorage();
+      await loadEstimate();
+      return persisted;
+    } catch (err) {
+      console.error("Failed to request persistent storage:", err);
+      throw err;
+    }
+  }, [loadEstimate]);
+
+  return useMemo(
+    () => ({ estimate, projects, refresh, persist }),
+    [estimate, projects, refresh, persist],
+  );
+};
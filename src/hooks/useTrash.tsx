@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+import {
+  OPFS_CHANGE_EVENT,
+  PROJECT_CHANGE_EVENT,
+  TRASH_DIR,
+  deleteFromTrash,
+  emptyTrash,
+  getActiveProjectId,
+  getProjectPath,
+  listTrash,
+  openProjects,
+  purgeExpiredTrash,
+  restoreClip,
+  type OpfsChangeDetail,
+  type TrashedClip,
+} from "../utils";
+
+/**
+ * Custom hook to list the trash of the active project and restore from it
+ * Clips past the retention period are purged when a project is opened, so
+ * only one component should use it
+ */
+export const useTrash = () => {
+  const [items, setItems] = useState<TrashedClip[]>([]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const projectId = getActiveProjectId();
+      const items = await listTrash();
+
+      // The project was switched while loading; the load it triggered wins
+      if (projectId === getActiveProjectId()) setItems(items);
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+    }
+  }, []);
+
+  // Purge before listing; the deletions then reload the trash as they happen
+  const purgeAndLoadTrash = useCallback(async () => {
+    try {
+      await purgeExpiredTrash();
+    } catch (err) {
+      console.error("Failed to purge trash:", err);
+    }
+    await loadTrash();
+  }, [loadTrash]);
+
+  // Initial load, once the last used project has been opened
+  useEffect(() => {
+    openProjects().then(purgeAndLoadTrash, (err) =>
+      console.error("Failed to open projects:", err),
+    );
+  }, [purgeAndLoadTrash]);
+
+  useEffect(() => {
+    const handleOpfsChange = (event: Event) => {
+      const { path } = (event as CustomEvent<OpfsChangeDetail>).detail;
+      if (path.startsWith(getProjectPath(TRASH_DIR))) loadTrash();
+    };
+
+    window.addEventListener(PROJECT_CHANGE_EVENT, purgeAndLoadTrash);
+    window.addEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+
+    return () => {
+      window.removeEventListener(PROJECT_CHANGE_EVENT, purgeAndLoadTrash);
+      window.removeEventListener(OPFS_CHANGE_EVENT, handleOpfsChange);
+    };
+  }, [loadTrash, purgeAndLoadTrash]);
+
+  const restore = useCallback(async (folderName: string) => {
+    try {
+      await restoreClip(folderName);
+    } catch (err) {
+      console.error(`Failed to restore ${folderName}:`, err);
+      throw err;
+    }
+  }, []);
+
+  const remove = useCallback(async (folderName: string) => {
+    try {
+      await deleteFromTrash(folderName);
+    } catch (err) {
+      console.error(`Failed to delete ${folderName} from trash:`, err);
+      throw err;
+    }
+  }, []);
+
+  const empty = useCallback(async () => {
+    try {
+      await emptyTrash();
+    } catch (err) {
+      console.error("Failed to empty trash:", err);
+      throw err;
+    }
+  }, []);
+
+  return useMemo(
+    () => ({ items, restore, remove, empty }),
+    [items, restore, remove, empty],
+  );
+};
@@ -0,0 +1,198 @@
+import { useState, useCallback, useMemo, useRef } from "react";
+
+import {
+  formatBytes,
+  getActiveProjectId,
+  getQuotaShortfall,
+  isValidAudioFile,
+  projectExists,
+  saveAudioClip,
+} from "../utils";
+
+export type UploadStatus =
+  "pending" | "uploading" | "done" | "failed" | "skipped";
+
+/**
+ * A file waiting in, or processed by, the upload queue
+ */
+export interface UploadItem {
+  id: string;
+  file: File;
+  projectId: string; // Project that was open when the file was queued
+  status: UploadStatus;
+  progress: number; // 0-1
+  error?: string;
+}
+
+let nextUploadId = 0;
+
+/**
+ * Custom hook to upload many files one after another
+ * Files that aren't audio are set aside as rejected instead of being queued,
+ * and files that won't fit in the space left are only queued once confirmed
+ */
+export const useUploadQueue = () => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [rejected, setRejected] = useState<File[]>([]);
+
+  // The upload loop reads the latest queue from here rather than from state
+  const itemsRef = useRef<UploadItem[]>([]);
+  const isRunningRef = useRef(false);
+
+  const updateItems = useCallback(
+    (update: (items: UploadItem[]) => UploadItem[]) => {
+      itemsRef.current = update(itemsRef.current);
+      setItems(itemsRef.current);
+    },
+    [],
+  );
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<UploadItem>) =>
+      updateItems((items) =>
+        items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+      ),
+    [updateItems],
+  );
+
+  // Upload pending files in order until none are left
+  const run = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+
+    let next: UploadItem | undefined;
+    while (
+      (next = itemsRef.current.find(({ status }) => status === "pending"))
+    ) {
+      const { id, file, projectId } = next;
+
+      try {
+        // Files queued for a project that has since been deleted are dropped
+        if (!(await projectExists(projectId))) {
+          updateItems((items) => items.filter((item) => item.id !== id));
+          continue;
+        }
+
+        updateItem(id, { status: "uploading", progress: 0, error: undefined });
+        await saveAudioClip(
+          file,
+          (progress) => updateItem(id, { progress }),
+          projectId,
+        );
+        updateItem(id, { status: "done", progress: 1 });
+      } catch (err) {
+        console.error(`Failed to upload ${file.name}:`, err);
+        updateItem(id, {
+          status: "failed",
+          error: err instanceof Error ? err.message : "Unknown error",
+        });
+      }
+    }
+
+    isRunningRef.current = false;
+  }, [updateItem, updateItems]);
+
+  const enqueue = useCallback(
+    async (files: File[]) => {
+      const valid = files.filter(isValidAudioFile);
+      const invalid = files.filter((file) => !isValidAudioFile(file));
+
+      if (invalid.length > 0) {
+        setRejected((rejected) => [...rejected, ...invalid]);
+      }
+
+      // Files still waiting in the queue need room too
+      const size = [
+        ...valid,
+        ...itemsRef.current
+          .filter(({ status }) => status === "pending")
+          .map(({ file }) => file),
+      ].reduce((size, file) => size + file.size, 0);
+
+      try {
+        const shortfall = await getQuotaShortfall(size);
+
+        if (
+          shortfall > 0 &&
+          !confirm(
+            `These files need ${formatBytes(shortfall)} more than the storage space left. Upload anyway?`,
+          )
+        ) {
+          return;
+        }
+      } catch (err) {
+        console.warn("Failed to check the storage space left:", err);
+      }
+
+      const projectId = getActiveProjectId();
+
+      updateItems((items) => [
+        ...items,
+        ...valid.map((file) => ({
+          id: `${nextUploadId++}`,
+          file,
+          projectId,
+          status: "pending" as const,
+          progress: 0,
+        })),
+      ]);
+
+      run();
+    },
+    [run, updateItems],
+  );
+
+  const skip = useCallback(
+    (id: string) =>
+      updateItems((items) =>
+        items.map((item) =>
+          item.id === id && item.status === "pending"
+            ? { ...item, status: "skipped" }
+            : item,
+        ),
+      ),
+    [updateItems],
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      updateItems((items) =>
+        items.map((item) =>
+          item.id === id &&
+          (item.status === "failed" || item.status === "skipped")
+            ? { ...item, status: "pending", progress: 0 }
+            : item,
+        ),
+      );
+      run();
+    },
+    [run, updateItems],
+  );
+
+  // Forget finished files and rejections, keeping anything still to upload
+  const clear = useCallback(() => {
+    updateItems((items) =>
+      items.filter(
+        ({ status }) => status === "pending" || status === "uploading",
+      ),
+    );
+    setRejected([]);
+  }, [updateItems]);
+
+  const isUploading = items.some(
+    ({ status }) => status === "pending" || status === "uploading",
+  );
+
+  return useMemo(
+    () => ({
+      items,
+      rejected,
+      isUploading,
+      enqueue,
+      skip,
+      retry,
+      clear,
+    }),
+    [items, rejected, isUploading, enqueue, skip, retry, clear],
+  );
+};
@@ -0,0 +1,44 @@
+import type { AudioMetadata } from "./audio";
+import { updateAudioMetadata } from "./clips";
+import type { PcmAudio } from "./pcm";
+import { AudioWorker } from "./worker";
+
+/**
+ * Get the loudness of a clip, measuring and caching it in metadata.json on first use
+ * @param metadata - Clip metadata, possibly with a cached measurement
+ * @param buffer - Decoded audio of the clip
+ * @returns The metadata including its loudness
+ */
+export const ensureClipLoudness = async (
+  metadata: AudioMetadata,
+  buffer: PcmAudio,
+): Promise<AudioMetadata> => {
+  if (metadata.loudness !== undefined) return metadata;
+
+  const loudness = await AudioWorker.measureLoudness(buffer);
+
+  // JSON can't hold -Infinity, so silent clips are stored as null
+  return await updateAudioMetadata(metadata.folderName, {
+    loudness: Number.isFinite(loudness) ? loudness : null,
+  });
+};
+
+/**
+ * Get the silence analysis of a clip, running and caching it in metadata.json
+ * when missing or made with a different threshold
+ * @param metadata - Clip metadata, possibly with a cached analysis
+ * @param buffer - Decoded audio of the clip
+ * @param threshold - Level in dBFS below which audio counts as silence
+ * @returns The metadata including its silence analysis
+ */
+export const ensureClipSilence = async (
+  metadata: AudioMetadata,
+  buffer: PcmAudio,
+  threshold: number,
+): Promise<AudioMetadata> => {
+  if (metadata.silence?.threshold === threshold) return metadata;
+
+  return await updateAudioMetadata(metadata.folderName, {
+    silence: await AudioWorker.detectSilence(buffer, threshold),
+  });
+};
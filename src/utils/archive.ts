@@ -0,0 +1,351 @@
+import type { AudioMetadata } from "./audio";
+import { createClipId, isClipId, readAudioMetadata } from "./clips";
+import { evictDecodedClip } from "./decodeCache";
+import {
+  MANIFEST_PATH,
+  createSpacerId,
+  readManifest,
+  remapTransitions,
+  removeFromManifest,
+  updateManifest,
+  type ProjectManifest,
+} from "./manifest";
+import {
+  EXPORTS_DIR,
+  createProject,
+  getActiveProjectId,
+  getProjectPath,
+  listProjects,
+  setActiveProject,
+} from "./projects";
+import { OpfsStorage } from "./storage";
+import { createZipStream, readZip, type ZipEntry, type ZipInput } from "./zip";
+
+/**
+ * Project archives: a whole project in one ZIP file, laid out as
+ *
+ *   project.json                  ArchiveIndex (format, version, name, manifest)
+ *   clips/<clip-id>/metadata.json Clip metadata
+ *   clips/<clip-id>/<file>        The audio file, cover and anything else in the folder
+ *
+ * PROJECT_ARCHIVE.md describes the format and its versions in full
+ */
+export const ARCHIVE_FORMAT = "audio-stitching-project";
+export const ARCHIVE_VERSION = 1;
+
+const ARCHIVE_INDEX = "project.json";
+const ARCHIVE_CLIPS_DIR = "clips";
+
+/**
+ * Contents of project.json
+ */
+export interface ArchiveIndex {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  name: string; // Project name
+  exportedAt: number; // Unix timestamp
+  manifest: ProjectManifest;
+}
+
+/**
+ * What happens to an imported clip named like a clip already in the project
+ */
+export type ImportConflict = "keep-both" | "replace" | "skip";
+
+export interface ImportArchiveOptions {
+  target: "new-project" | "active-project";
+  onConflict?: ImportConflict; // Only used when importing into the active project
+}
+
+export interface ImportArchiveResult {
+  projectId: string;
+  imported: number;
+  skipped: number; // Left out for a name conflict or missing metadata
+  replaced: number; // Existing clips deleted in favour of imported ones
+  renamed: number; // Imported clips renamed to keep both
+}
+
+// Upgrade an index written by each older version to the next version, so
+// old exports keep importing; keyed by the version being upgraded from
+const INDEX_UPGRADES: Record<
+  number,
+  (index: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+const NOT_AN_ARCHIVE = "This file is not a project archive";
+
+/**
+ * Export a project with all of its clips, order, transitions and settings
+ * Files are streamed into an archive in OPFS, so the project never has to fit
+ * in memory
+ * @param projectId - Project to export, defaults to the active one
+ * @returns The archive as a ZIP file, read from OPFS as it's used
+ */
+export const exportProjectArchive = async (
+  projectId: string = getActiveProjectId(),
+): Promise<Blob> => {
+  const project = (await listProjects()).find(({ id }) => id === projectId);
+  if (!project) throw new Error(`Project ${projectId} not found`);
+
+  const manifest = await readManifest(getProjectPath(MANIFEST_PATH, projectId));
+  const folders = await OpfsStorage.listDirectories(
+    getProjectPath("", projectId),
+  );
+
+  const files: ZipInput[] = [];
+  for (const folderName of folders.filter(isClipId)) {
+    const folderPath = getProjectPath(folderName, projectId);
+
+    for (const file of await OpfsStorage.listFiles(folderPath)) {
+      files.push({
+        name: `${ARCHIVE_CLIPS_DIR}/${folderName}/${file}`,
+        data: await OpfsStorage.readFileStream(`${folderPath}/${file}`),
+      });
+    }
+  }
+
+  const index: ArchiveIndex = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    name: project.name,
+    exportedAt: Date.now(),
+    manifest,
+  };
+
+  const path = `${EXPORTS_DIR}/${crypto.randomUUID()}.zip`;
+  await OpfsStorage.saveFileStream(
+    path,
+    createZipStream([
+      { name: ARCHIVE_INDEX, data: JSON.stringify(index, null, 2) },
+      ...files,
+    ]),
+  );
+
+  const archive = await OpfsStorage.getFile(path);
+  return new Blob([archive], { type: "application/zip" });
+};
+
+const readJson = async <T>(entry: ZipEntry): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await entry.read())) as T;
+
+/**
+ * Read project.json, upgrading indexes written by older versions
+ */
+const readArchiveIndex = async (
+  entries: Map<string, ZipEntry>,
+): Promise<ArchiveIndex> => {
+  const entry = entries.get(ARCHIVE_INDEX);
+  if (!entry) throw new Error(NOT_AN_ARCHIVE);
+
+  let index = await readJson<Record<string, unknown>>(entry);
+  if (
+    index.format !== ARCHIVE_FORMAT ||
+    typeof index.version !== "number" ||
+    !Number.isInteger(index.version) ||
+    index.version < 1
+  ) {
+    throw new Error(NOT_AN_ARCHIVE);
+  }
+  if (index.version > ARCHIVE_VERSION) {
+    throw new Error(
+      "This archive was exported by a newer version of the app. Please update and try again.",
+    );
+  }
+
+  while ((index.version as number) < ARCHIVE_VERSION) {
+    index = INDEX_UPGRADES[index.version as number](index);
+  }
+
+  return index as unknown as ArchiveIndex;
+};
+
+/**
+ * Group the files of an archive by the clip folder they belong to
+ * @returns Files keyed by file name, keyed by clip folder
+ */
+const getArchiveClips = (entries: Map<string, ZipEntry>) => {
+  const clips = new Map<string, Map<string, ZipEntry>>();
+
+  for (const [path, entry] of entries) {
+    const [dir, folderName, fileName, ...rest] = path.split("/");
+    if (dir !== ARCHIVE_CLIPS_DIR || !folderName || !fileName || rest.length) {
+      continue;
+    }
+
+    if (!clips.has(folderName)) clips.set(folderName, new Map());
+    clips.get(folderName)!.set(fileName, entry);
+  }
+
+  return clips;
+};
+
+/**
+ * Append " (2)", " (3)"… to a name until it no longer clashes
+ */
+const getUniqueName = (name: string, taken: Set<string>): string => {
+  let copy = 2;
+  while (taken.has(`${name} (${copy})`)) copy++;
+  return `${name} (${copy})`;
+};
+
+/**
+ * Point the order, transitions and spacers of an imported manifest at the
+ * folders clips were imported into
+ * @param manifest - Manifest from the archive
+ * @param folders - Imported clips' folders, keyed by their folder in the archive
+ * @param renewSpacers - Give spacers new IDs, so they can't clash with existing ones
+ */
+const remapManifest = (
+  manifest: ProjectManifest,
+  folders: Map<string, string>,
+  renewSpacers: boolean,
+): Pick<ProjectManifest, "order" | "transitions" | "spacers"> => {
+  const ids = new Map(folders);
+  const spacers: Record<string, number> = {};
+
+  for (const [id, duration] of Object.entries(manifest.spacers)) {
+    const nextId = renewSpacers ? createSpacerId() : id;
+    ids.set(id, nextId);
+    spacers[nextId] = duration;
+  }
+
+  const order = manifest.order.flatMap((id) => ids.get(id) ?? []);
+  const transitions = remapTransitions(
+    manifest.transitions,
+    (id) => ids.get(id) ?? null,
+  );
+
+  // Clips missing from the archived order go last
+  for (const folderName of folders.values()) {
+    if (!order.includes(folderName)) order.push(folderName);
+  }
+
+  return { order, transitions, spacers };
+};
+
+/**
+ * Import a project archive, as a new project or into the active one
+ * Imports into a new project open it once done
+ * @param archive - ZIP file made by exportProjectArchive
+ * @param options - Where to import to and how to handle name conflicts
+ */
+export const importProjectArchive = async (
+  archive: Blob,
+  { target, onConflict = "keep-both" }: ImportArchiveOptions,
+): Promise<ImportArchiveResult> => {
+  const entries = await readZip(archive);
+  const index = await readArchiveIndex(entries);
+  const clips = getArchiveClips(entries);
+
+  const isNewProject = target === "new-project";
+  const projectId = isNewProject
+    ? (await createProject(index.name)).id
+    : getActiveProjectId();
+
+  const existing: AudioMetadata[] = [];
+  if (!isNewProject) {
+    const folders = await OpfsStorage.listDirectories(
+      getProjectPath("", projectId),
+    );
+
+    for (const folderName of folders.filter(isClipId)) {
+      try {
+        existing.push(await readAudioMetadata(folderName, projectId));
+      } catch (err) {
+        console.warn(`Failed to read clip ${folderName}:`, err);
+      }
+    }
+  }
+
+  const result: ImportArchiveResult = {
+    projectId,
+    imported: 0,
+    skipped: 0,
+    replaced: 0,
+    renamed: 0,
+  };
+  const takenNames = new Set(existing.map(({ name }) => name));
+  const folders = new Map<string, string>();
+
+  for (const [archiveFolder, files] of clips) {
+    const metadataEntry = files.get("metadata.json");
+    if (!metadataEntry) {
+      result.skipped++;
+      continue;
+    }
+
+    const metadata = await readJson<AudioMetadata>(metadataEntry);
+    const clashes = existing.filter(({ name }) => name === metadata.name);
+
+    if (clashes.length > 0) {
+      if (onConflict === "skip") {
+        result.skipped++;
+        continue;
+      }
+
+      if (onConflict === "keep-both") {
+        metadata.name = getUniqueName(metadata.name, takenNames);
+        result.renamed++;
+      }
+    }
+
+    // Clips get new folders unless the project is new, so IDs never collide
+    const folderName =
+      isNewProject && isClipId(archiveFolder) ? archiveFolder : createClipId();
+    const folderPath = getProjectPath(folderName, projectId);
+
+    for (const [fileName, entry] of files) {
+      if (fileName === "metadata.json") continue;
+      await OpfsStorage.saveFile(
+        `${folderPath}/${fileName}`,
+        await entry.read(),
+      );
+    }
+
+    // Written last, as a folder only counts as a clip once it has metadata
+    await OpfsStorage.saveFile(
+      `${folderPath}/metadata.json`,
+      JSON.stringify({ ...metadata, folderName }, null, 2),
+    );
+
+    // Replaced clips are only removed once their replacement is in place
+    if (clashes.length > 0 && onConflict === "replace") {
+      for (const clash of clashes) {
+        await OpfsStorage.deleteDirectory(
+          getProjectPath(clash.folderName, projectId),
+        );
+        await removeFromManifest(clash.folderName, projectId);
+        evictDecodedClip(clash.folderName);
+        existing.splice(existing.indexOf(clash), 1);
+        result.replaced++;
+      }
+    }
+
+    folders.set(archiveFolder, folderName);
+    takenNames.add(metadata.name);
+    result.imported++;
+  }
+
+  const imported = remapManifest(index.manifest, folders, !isNewProject);
+
+  if (isNewProject) {
+    await OpfsStorage.saveFile(
+      getProjectPath(MANIFEST_PATH, projectId),
+      JSON.stringify({ ...index.manifest, ...imported }, null, 2),
+    );
+    setActiveProject(projectId);
+  } else {
+    // The project keeps its own settings
+    await updateManifest(
+      (manifest) => ({
+        ...manifest,
+        order: [...manifest.order, ...imported.order],
+        transitions: { ...manifest.transitions, ...imported.transitions },
+        spacers: { ...manifest.spacers, ...imported.spacers },
+      }),
+      projectId,
+    );
+  }
+
+  return result;
+};
@@ -1,3 +1,6 @@
+import type { ClipEffects } from "./effects";
+import type { SilenceAnalysis } from "./silence";
+
 /**
  * Metadata for a audio stored in OPFS
  * This interface is designed to be extensible - add new properties as needed
@@ -17,14 +20,26 @@ export interface AudioMetadata {
   mimeType: string;
   duration?: number; // Audio duration in seconds (if available)
 
+  // Playback properties (non-destructive, the stored file is never modified)
+  trimStart?: number; // In point in seconds
+  trimEnd?: number; // Out point in seconds, defaults to the end of the file
+  gainDb?: number; // User gain offset in dB
+  effects?: ClipEffects; // EQ, high-pass and compressor, before the gain
+
+  // Analysis results (cached so they aren't recomputed on every play)
+  loudness?: number | null; // Integrated loudness in LUFS, null if silent
+  silence?: SilenceAnalysis; // Dead air at the head and tail, and long gaps
+
   // Timestamps
   uploadedAt: number; // Unix timestamp
   lastModified: number; // Unix timestamp from file
 
   // Optional extended properties (future-extensible)
   metadata?: {
-    bitrate?: number;
+    bitrate?: number; // Average bits per second
     codec?: string;
+    sampleRate?: number; // Hz, of the stored file
+    channels?: number;
     fps?: number;
   };
 }
@@ -0,0 +1,309 @@
+import { createAudioMetadata, type AudioMetadata } from "./audio";
+import { inspectAudio, type AudioInfo } from "./inspect";
+import { MANIFEST_PATH, appendToManifest, readManifest } from "./manifest";
+import { decodeOffline } from "./render";
+import { getActiveProjectId, getProjectPath } from "./projects";
+import { OpfsStorage } from "./storage";
+import { AudioWorker } from "./worker";
+
+/**
+ * File name of the generated cover inside a clip folder
+ * AudioMetadata.cover holds this name (relative to the folder) once generated
+ */
+export const COVER_FILE_NAME = "cover.png";
+
+// Covers and silence detection only need a rough signal, so decode at a low sample rate
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+/**
+ * Resolve the path of a file in a clip folder
+ * @param projectId - Project the clip belongs to, defaults to the active one
+ */
+export const getClipPath = (
+  folderName: string,
+  fileName: string,
+  projectId?: string,
+): string => getProjectPath(`${folderName}/${fileName}`, projectId);
+
+/**
+ * Default cover shown for clips without their own artwork
+ */
+export const getDefaultCover = (): string =>
+  `${window.location.origin}/audio-thumbnail.jpg`;
+
+/**
+ * Check if a clip still shows the shared default cover
+ */
+export const hasDefaultCover = (metadata: AudioMetadata): boolean =>
+  metadata.cover !== COVER_FILE_NAME;
+
+/**
+ * Turn AudioMetadata.cover into something an <img> can display
+ * Generated covers live in OPFS and are exposed through an object URL, which
+ * the caller must revoke when it is no longer needed
+ */
+export const resolveCoverUrl = async (
+  metadata: AudioMetadata,
+): Promise<string> => {
+  if (hasDefaultCover(metadata)) return metadata.cover;
+
+  try {
+    const buffer = await OpfsStorage.readFile(
+      getClipPath(metadata.folderName, COVER_FILE_NAME),
+    );
+    return URL.createObjectURL(new Blob([buffer], { type: "image/png" }));
+  } catch (err) {
+    console.warn(`Missing cover for ${metadata.folderName}:`, err);
+    return getDefaultCover();
+  }
+};
+
+/**
+ * Render a waveform cover for a clip and store it in the clip folder
+ * @param folderName - Clip folder to write the cover into
+ * @param buffer - Decoded audio of the clip
+ * @param color - Clip color used to tint the waveform
+ * @param projectId - Project the clip belongs to, defaults to the active one
+ * @returns The value to store in AudioMetadata.cover
+ */
+const saveWaveformCover = async (
+  folderName: string,
+  buffer: AudioBuffer,
+  color: string,
+  projectId?: string,
+): Promise<string> => {
+  const cover = await AudioWorker.renderWaveformCover(buffer, color);
+
+  await OpfsStorage.saveFile(
+    getClipPath(folderName, COVER_FILE_NAME, projectId),
+    cover,
+  );
+  return COVER_FILE_NAME;
+};
+
+/**
+ * Map inspection results onto the metadata fields they fill
+ * @param info - Result of inspectAudio
+ * @param extended - Existing extended properties to keep
+ */
+const getStreamMetadata = (
+  { duration, bitrate, codec, sampleRate, channels }: AudioInfo,
+  extended?: AudioMetadata["metadata"],
+): Partial<AudioMetadata> => ({
+  duration,
+  metadata: { ...extended, bitrate, codec, sampleRate, channels },
+});
+
+// Clip folders are named "clip-" followed by a UUID
+const CLIP_ID_PATTERN = /^clip-[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/;
+
+/**
+ * Create a unique OPFS folder name for a new clip
+ * Uploads never share a folder, even when their file names match
+ */
+export const createClipId = (): string => `clip-${crypto.randomUUID()}`;
+
+/**
+ * Check if a folder name was created by createClipId
+ * (older versions named folders after the uploaded file)
+ */
+export const isClipId = (folderName: string): boolean =>
+  CLIP_ID_PATTERN.test(folderName);
+
+/**
+ * Store an audio file in OPFS as a new clip
+ * Writes the file and its metadata.json into the clip folder and appends the
+ * clip to the end of the playback order
+ * @param file - Audio file to store
+ * @param onProgress - Called as each step completes (0-1)
+ * @param projectId - Project to add the clip to, defaults to the active one;
+ * resolved once so switching projects mid-upload can't split the clip
+ * @returns The metadata saved alongside the file
+ */
+export const saveAudioClip = async (
+  file: File,
+  onProgress?: (progress: number) => void,
+  projectId: string = getActiveProjectId(),
+): Promise<AudioMetadata> => {
+  const folderName = createClipId();
+  const filePath = getClipPath(folderName, file.name, projectId);
+
+  // Create metadata for the audio
+  const metadata = createAudioMetadata(file, folderName, getDefaultCover());
+
+  // Upload file to OPFS
+  await OpfsStorage.saveFile(filePath, file);
+  onProgress?.(0.5);
+
+  // Record length and stream format so they can be shown without decoding
+  try {
+    Object.assign(metadata, getStreamMetadata(await inspectAudio(file)));
+  } catch (err) {
+    console.warn(`Failed to inspect ${file.name}:`, err);
+  }
+  onProgress?.(0.6);
+
+  // When the clip can be decoded, replace the default cover with its
+  // waveform and find the silence at its head and tail
+  try {
+    const [buffer] = await decodeOffline(
+      [await file.arrayBuffer()],
+      ANALYSIS_SAMPLE_RATE,
+    );
+    const { settings } = await readManifest(
+      getProjectPath(MANIFEST_PATH, projectId),
+    );
+
+    metadata.cover = await saveWaveformCover(
+      folderName,
+      buffer,
+      metadata.color,
+      projectId,
+    );
+    metadata.silence = await AudioWorker.detectSilence(
+      buffer,
+      settings.silenceThreshold,
+    );
+  } catch (err) {
+    console.warn(`Failed to analyse ${file.name}:`, err);
+  }
+  onProgress?.(0.9);
+
+  // Save metadata as JSON in the same folder
+  const metadataPath = getClipPath(folderName, "metadata.json", projectId);
+  const metadataJson = JSON.stringify(metadata, null, 2);
+
+  await OpfsStorage.saveFile(metadataPath, metadataJson);
+  await appendToManifest(folderName, projectId);
+  onProgress?.(1);
+
+  return metadata;
+};
+
+/**
+ * Read the metadata.json of a clip folder
+ * @param projectId - Project the clip belongs to, defaults to the active one
+ */
+export const readAudioMetadata = async (
+  folderName: string,
+  projectId?: string,
+): Promise<AudioMetadata> => {
+  const buffer = await OpfsStorage.readFile(
+    getClipPath(folderName, "metadata.json", projectId),
+  );
+  const text = new TextDecoder().decode(buffer);
+  return JSON.parse(text) as AudioMetadata;
+};
+
+// Serializes read-modify-write cycles per metadata.json, so background
+// analysis and edits of the same clip don't drop each other's changes
+const pendingMetadataUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Merge changes into the metadata.json of a clip folder
+ * @param folderName - Clip folder to update
+ * @param changes - Properties to overwrite
+ * @returns The updated metadata
+ */
+export const updateAudioMetadata = (
+  folderName: string,
+  changes: Partial<AudioMetadata>,
+): Promise<AudioMetadata> => {
+  // Resolve the project now so switching mid-update can't redirect the write
+  const projectId = getActiveProjectId();
+  const path = getClipPath(folderName, "metadata.json", projectId);
+
+  const next = (pendingMetadataUpdates.get(path) ?? Promise.resolve()).then(
+    async () => {
+      const metadata = {
+        ...(await readAudioMetadata(folderName, projectId)),
+        ...changes,
+      };
+      await OpfsStorage.saveFile(path, JSON.stringify(metadata, null, 2));
+      return metadata;
+    },
+  );
+
+  const settled = next.catch(() => {});
+  pendingMetadataUpdates.set(path, settled);
+
+  // Forget the clip once its queue is idle
+  settled.then(() => {
+    if (pendingMetadataUpdates.get(path) === settled) {
+      pendingMetadataUpdates.delete(path);
+    }
+  });
+
+  return next;
+};
+
+/**
+ * Generate a waveform cover for a clip that still uses the default one
+ * @param metadata - Clip to regenerate the cover for
+ * @returns The updated metadata
+ */
+export const regenerateClipCover = async (
+  metadata: AudioMetadata,
+): Promise<AudioMetadata> => {
+  const audio = await OpfsStorage.readFile(
+    getClipPath(metadata.folderName, metadata.fileName),
+  );
+  const [buffer] = await decodeOffline([audio], ANALYSIS_SAMPLE_RATE);
+  const cover = await saveWaveformCover(
+    metadata.folderName,
+    buffer,
+    metadata.color,
+  );
+
+  return await updateAudioMetadata(metadata.folderName, { cover });
+};
+
+/**
+ * Fill in duration and stream format for a clip uploaded before they were recorded
+ * @param metadata - Clip to inspect
+ * @returns The updated metadata
+ */
+export const inspectClip = async (
+  metadata: AudioMetadata,
+): Promise<AudioMetadata> => {
+  // Only the headers (and, for some formats, the tail) are read from OPFS
+  const path = getClipPath(metadata.folderName, metadata.fileName);
+  const { size } = await OpfsStorage.getFileDetails(path);
+  const info = await inspectAudio({
+    size,
+    read: (start, end) => OpfsStorage.readFileRange(path, start, end),
+  });
+
+  return await updateAudioMetadata(
+    metadata.folderName,
+    getStreamMetadata(info, metadata.metadata),
+  );
+};
+
+/**
+ * Find clips that look like a re-upload of an earlier clip (same file name and size)
+ * @param clips - Clip metadata in playback order
+ * @returns Display name of the earlier clip, keyed by the folder of each duplicate
+ */
+export const findDuplicateClips = (
+  clips: AudioMetadata[],
+): Map<string, string> => {
+  const firstUpload = new Map<string, AudioMetadata>();
+  const duplicates = new Map<string, string>();
+
+  // Compare against the oldest upload so the original is never flagged
+  const byUpload = [...clips].sort((a, b) => a.uploadedAt - b.uploadedAt);
+
+  for (const clip of byUpload) {
+    const key = `${clip.fileName}:${clip.size}`;
+    const original = firstUpload.get(key);
+
+    if (original) {
+      duplicates.set(clip.folderName, original.name);
+    } else {
+      firstUpload.set(key, clip);
+    }
+  }
+
+  return duplicates;
+};
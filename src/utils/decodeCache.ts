@@ -0,0 +1,101 @@
+import type { AudioMetadata } from "./audio";
+
+interface CachedBuffer {
+  folderName: string;
+  buffer: AudioBuffer;
+  bytes: number;
+}
+
+// Decoded audio is kept up to this many bytes of samples
+const CACHE_BUDGET_BYTES = 512 * 1024 * 1024;
+
+// Most recently used last, as Map keeps insertion order
+const cache = new Map<string, CachedBuffer>();
+
+// Decodes in progress, so concurrent requests for a clip share one decode
+const pending = new Map<string, Promise<AudioBuffer>>();
+
+let cachedBytes = 0;
+
+/**
+ * A clip's audio file never changes once saved, so its folder and the file's
+ * timestamp identify the decoded audio; clips are decoded once per sample rate
+ */
+const getCacheKey = (
+  { folderName, lastModified }: AudioMetadata,
+  sampleRate: number,
+) => `${folderName}:${lastModified}:${sampleRate}`;
+
+const getBufferBytes = (buffer: AudioBuffer) =>
+  buffer.length * buffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+
+const deleteEntry = (key: string) => {
+  const entry = cache.get(key);
+  if (!entry) return;
+
+  cache.delete(key);
+  cachedBytes -= entry.bytes;
+};
+
+/**
+ * Drop the least recently used buffers until the cache fits its budget
+ * The newest buffer is always kept, even if it alone is over budget
+ */
+const evictToBudget = () => {
+  for (const key of cache.keys()) {
+    if (cachedBytes <= CACHE_BUDGET_BYTES || cache.size === 1) return;
+    deleteEntry(key);
+  }
+};
+
+/**
+ * Get the decoded audio of a clip, decoding it only when it isn't cached yet
+ * @param metadata - Clip metadata identifying the audio file
+ * @param sampleRate - Sample rate the audio is decoded at
+ * @param decode - Reads and decodes the clip's audio file
+ */
+export const getDecodedClip = (
+  metadata: AudioMetadata,
+  sampleRate: number,
+  decode: () => Promise<AudioBuffer>,
+): Promise<AudioBuffer> => {
+  const key = getCacheKey(metadata, sampleRate);
+  const cached = cache.get(key);
+
+  if (cached) {
+    // Move the buffer to the most recently used end
+    cache.delete(key);
+    cache.set(key, cached);
+    return Promise.resolve(cached.buffer);
+  }
+
+  let decoding = pending.get(key);
+  if (decoding) return decoding;
+
+  decoding = (async () => {
+    try {
+      const buffer = await decode();
+      const bytes = getBufferBytes(buffer);
+
+      cache.set(key, { folderName: metadata.folderName, buffer, bytes });
+      cachedBytes += bytes;
+      evictToBudget();
+
+      return buffer;
+    } finally {
+      pending.delete(key);
+    }
+  })();
+
+  pending.set(key, decoding);
+  return decoding;
+};
+
+/**
+ * Forget every decoded version of a clip, e.g. once it has been deleted
+ */
+export const evictDecodedClip = (folderName: string) => {
+  for (const [key, entry] of cache) {
+    if (entry.folderName === folderName) deleteEntry(key);
+  }
+};
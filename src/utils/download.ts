@@ -0,0 +1,14 @@
+// Time the browser gets to start the download before its URL is revoked, in ms
+const REVOKE_DELAY = 60_000;
+
+/**
+ * Save a blob through the browser's downloads
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
@@ -0,0 +1,146 @@
+import { dbToGain } from "./loudness";
+
+export type EqBandType = "lowshelf" | "peaking" | "highshelf";
+
+/**
+ * One band of the parametric EQ
+ */
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gainDb: number;
+  q: number; // Bandwidth, only used by peaking bands
+}
+
+/**
+ * Processing applied to a clip before its gain and fades, stored in its
+ * metadata. Disabled stages keep their settings.
+ */
+export interface ClipEffects {
+  highPass: {
+    enabled: boolean;
+    frequency: number; // Hz
+  };
+  eq: {
+    enabled: boolean;
+    bands: EqBand[];
+  };
+  compressor: {
+    enabled: boolean;
+    threshold: number; // dBFS
+    ratio: number; // 20:1 acts as a limiter
+    knee: number; // dB
+    attack: number; // in sec
+    release: number; // in sec
+    makeupDb: number; // Gain after compression
+  };
+}
+
+export const DEFAULT_CLIP_EFFECTS: ClipEffects = {
+  highPass: { enabled: false, frequency: 80 },
+  eq: {
+    enabled: false,
+    bands: [
+      { type: "lowshelf", frequency: 120, gainDb: 0, q: 0.7 },
+      { type: "peaking", frequency: 500, gainDb: 0, q: 1 },
+      { type: "peaking", frequency: 2500, gainDb: 0, q: 1 },
+      { type: "highshelf", frequency: 8000, gainDb: 0, q: 0.7 },
+    ],
+  },
+  compressor: {
+    enabled: false,
+    threshold: -24,
+    ratio: 4,
+    knee: 6,
+    attack: 0.01,
+    release: 0.25,
+    makeupDb: 0,
+  },
+};
+
+// Web Audio reads the Q of lowpass and highpass filters in dB; this is the
+// resonance of a flat Butterworth response, 20 * log10(1 / sqrt(2))
+const HIGH_PASS_Q_DB = -3.0103;
+
+/**
+ * Whether any stage of a clip's effects does something
+ */
+export const hasActiveEffects = (effects?: ClipEffects): boolean =>
+  !!effects &&
+  (effects.highPass.enabled ||
+    effects.eq.enabled ||
+    effects.compressor.enabled);
+
+/**
+ * Build a clip's effects from Web Audio nodes and connect them to `destination`
+ * Used for live playback and offline rendering alike, so both sound the same
+ * @param ctx - Realtime or offline audio context
+ * @param effects - The clip's effects, if any
+ * @param destination - Node the processed audio goes to
+ * @param rate - Playback rate of the source; frequencies and times are scaled
+ * so the effects act on the audio as if it played at normal speed
+ * @returns Node to connect the clip's source to (`destination` when no stage
+ * is enabled)
+ */
+export const connectClipEffects = (
+  ctx: BaseAudioContext,
+  effects: ClipEffects | undefined,
+  destination: AudioNode,
+  rate: number = 1,
+): AudioNode => {
+  if (!effects || !hasActiveEffects(effects)) return destination;
+
+  const nyquist = ctx.sampleRate / 2;
+  const nodes: AudioNode[] = [];
+
+  const createFilter = (
+    type: BiquadFilterType,
+    frequency: number,
+    q: number,
+    gainDb = 0,
+  ) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = Math.min(frequency * rate, nyquist);
+    filter.Q.value = q;
+    filter.gain.value = gainDb;
+    return filter;
+  };
+
+  if (effects.highPass.enabled) {
+    nodes.push(
+      createFilter("highpass", effects.highPass.frequency, HIGH_PASS_Q_DB),
+    );
+  }
+
+  if (effects.eq.enabled) {
+    for (const { type, frequency, gainDb, q } of effects.eq.bands) {
+      // A band at 0 dB passes everything through unchanged
+      if (gainDb !== 0) nodes.push(createFilter(type, frequency, q, gainDb));
+    }
+  }
+
+  if (effects.compressor.enabled) {
+    const { threshold, ratio, knee, attack, release, makeupDb } =
+      effects.compressor;
+
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = threshold;
+    compressor.ratio.value = ratio;
+    compressor.knee.value = knee;
+    compressor.attack.value = attack / rate;
+    compressor.release.value = release / rate;
+    nodes.push(compressor);
+
+    if (makeupDb !== 0) {
+      const makeup = ctx.createGain();
+      makeup.gain.value = dbToGain(makeupDb);
+      nodes.push(makeup);
+    }
+  }
+
+  if (nodes.length === 0) return destination;
+
+  nodes.reduce((from, to) => from.connect(to)).connect(destination);
+  return nodes[0];
+};
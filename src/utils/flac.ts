@@ -0,0 +1,538 @@
+import type { PcmAudio } from "./pcm";
+import { encodeVorbisComment, type AudioTags } from "./tags";
+
+export type FlacBitDepth = 16 | 24;
+
+export interface EncodeFlacOptions {
+  bitDepth?: FlacBitDepth;
+  tags?: AudioTags; // Written as a Vorbis comment block
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+const BLOCK_SIZE = 4096;
+
+// Number of blocks encoded between progress reports / yields to the UI
+const BLOCKS_PER_CHUNK = 16;
+
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+
+// Rice parameters above this need the 5-bit parameter coding method
+const MAX_RICE4_PARAMETER = 14;
+const MAX_RICE5_PARAMETER = 30;
+
+const STREAMINFO_SIZE = 34;
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+
+// Frame header codes for sample rates that have one; others are read from STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1,
+  176400: 2,
+  192000: 3,
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11,
+};
+
+const SAMPLE_SIZE_CODES: Record<FlacBitDepth, number> = { 16: 4, 24: 6 };
+
+// Channel assignments for stereo decorrelation
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+const CRC8_TABLE = Uint8Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 0x80 ? (c << 1) ^ 0x07 : c << 1;
+  return c;
+});
+
+const CRC16_TABLE = Uint16Array.from({ length: 256 }, (_, n) => {
+  let c = n << 8;
+  for (let k = 0; k < 8; k++) c = c & 0x8000 ? (c << 1) ^ 0x8005 : c << 1;
+  return c;
+});
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ byte]) & 0xffff;
+  }
+  return crc;
+};
+
+/**
+ * Writes values of any width, most significant bit first
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0; // Whole bytes written
+  private pending = 0; // Bits not yet making up a whole byte
+  private pendingCount = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  reset() {
+    this.length = 0;
+    this.pending = 0;
+    this.pendingCount = 0;
+  }
+
+  /**
+   * Write the lowest `bits` bits of an unsigned value, up to 32
+   */
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(value >>> 16, bits - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+
+    if (this.length + 4 > this.bytes.length) {
+      const bytes = new Uint8Array(this.bytes.length * 2);
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+    }
+
+    this.pending = (this.pending << bits) | (value & ((1 << bits) - 1));
+    this.pendingCount += bits;
+
+    while (this.pendingCount >= 8) {
+      this.pendingCount -= 8;
+      this.bytes[this.length++] = this.pending >>> this.pendingCount;
+    }
+
+    this.pending &= (1 << this.pendingCount) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value & (2 ** bits - 1), bits);
+  }
+
+  /**
+   * Write a value as that many zeros followed by a one
+   */
+  writeUnary(value: number) {
+    for (; value >= 24; value -= 24) this.write(0, 24);
+    this.write(1, value + 1);
+  }
+
+  /**
+   * Write a value as a UTF-8 style variable length number, as frame numbers are
+   */
+  writeUtf8(value: number) {
+    if (value < 0x80) {
+      this.write(value, 8);
+      return;
+    }
+
+    let continuation = 1;
+    while (value >= 2 ** (5 * continuation + 6)) continuation++;
+
+    const leading = (0xff00 >> (continuation + 1)) & 0xff;
+    this.write(leading | (value >>> (6 * continuation)), 8);
+
+    for (let i = continuation - 1; i >= 0; i--) {
+      this.write(0x80 | ((value >>> (6 * i)) & 0x3f), 8);
+    }
+  }
+
+  alignToByte() {
+    if (this.pendingCount > 0) this.write(0, 8 - this.pendingCount);
+  }
+
+  /**
+   * The whole bytes written so far, without copying
+   */
+  view(): Uint8Array<ArrayBuffer> {
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+/**
+ * How a channel of a block is coded, and what that costs
+ */
+type Subframe =
+  | { type: "constant"; bits: number; value: number }
+  | { type: "verbatim"; bits: number }
+  | {
+      type: "fixed";
+      bits: number;
+      order: number;
+      residual: Int32Array;
+      partitionOrder: number;
+      parameters: number[]; // Rice parameter of each partition
+    };
+
+/**
+ * Sums of the zigzag-encoded residual in each partition
+ */
+const getPartitionSums = (
+  residual: Int32Array,
+  order: number,
+  partitionOrder: number,
+): number[] => {
+  const partitionSize = residual.length >> partitionOrder;
+  const sums: number[] = [];
+
+  for (let start = 0; start < residual.length; start += partitionSize) {
+    let sum = 0;
+    for (let i = Math.max(start, order); i < start + partitionSize; i++) {
+      const value = residual[i];
+      sum += value < 0 ? -2 * value - 1 : 2 * value;
+    }
+    sums.push(sum);
+  }
+
+  return sums;
+};
+
+/**
+ * Pick the Rice parameter for a partition and estimate its size in bits
+ */
+const getRiceCost = (sum: number, count: number) => {
+  // The smallest parameter for which values average no more than one unary bit
+  const parameter =
+    sum > count
+      ? Math.min(MAX_RICE5_PARAMETER, Math.ceil(Math.log2(sum / count)) - 1)
+      : 0;
+
+  return {
+    parameter,
+    bits: count * (parameter + 1) + Math.floor(sum / 2 ** parameter),
+  };
+};
+
+/**
+ * Find the partition order that codes a residual in the fewest bits
+ */
+const planResidual = (residual: Int32Array, order: number) => {
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    residual.length % (2 << maxOrder) === 0 &&
+    residual.length >> (maxOrder + 1) > order
+  ) {
+    maxOrder++;
+  }
+
+  // Coarser partitions are merged from the finest ones
+  let sums = getPartitionSums(residual, order, maxOrder);
+  let best = { bits: Infinity, partitionOrder: 0, parameters: [] as number[] };
+
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitionSize = residual.length >> partitionOrder;
+    const costs = sums.map((sum, i) =>
+      getRiceCost(sum, i === 0 ? partitionSize - order : partitionSize),
+    );
+    const parameters = costs.map(({ parameter }) => parameter);
+    const parameterBits = Math.max(...parameters) > MAX_RICE4_PARAMETER ? 5 : 4;
+    const bits = costs.reduce(
+      (bits, cost) => bits + parameterBits + cost.bits,
+      6,
+    );
+
+    if (bits < best.bits) best = { bits, partitionOrder, parameters };
+
+    sums = Array.from(
+      { length: sums.length / 2 },
+      (_, i) => sums[2 * i] + sums[2 * i + 1],
+    );
+  }
+
+  return best;
+};
+
+/**
+ * Compute the residual of a fixed predictor: the order-th difference
+ */
+const getFixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const residual = Int32Array.from(samples);
+
+  for (let pass = 0; pass < order; pass++) {
+    for (let i = residual.length - 1; i > pass; i--) {
+      residual[i] -= residual[i - 1];
+    }
+  }
+
+  // Warm-up samples are stored as they are
+  residual.set(samples.subarray(0, order));
+  return residual;
+};
+
+/**
+ * Choose the cheapest way to code one channel of a block
+ * @param samples - The channel's samples as integers
+ * @param bitDepth - Bits per sample, one more for side channels
+ */
+const planSubframe = (samples: Int32Array, bitDepth: number): Subframe => {
+  const header = 8;
+
+  if (samples.every((sample) => sample === samples[0])) {
+    return { type: "constant", bits: header + bitDepth, value: samples[0] };
+  }
+
+  // Pick the predictor leaving the smallest residual, as libFLAC does
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  let order = 0;
+  let residual = samples;
+  let smallest = Infinity;
+
+  for (let candidate = 0; candidate <= maxOrder; candidate++) {
+    const candidateResidual = getFixedResidual(samples, candidate);
+
+    let sum = 0;
+    for (let i = maxOrder; i < samples.length; i++) {
+      sum += Math.abs(candidateResidual[i]);
+    }
+
+    if (sum < smallest) {
+      order = candidate;
+      residual = candidateResidual;
+      smallest = sum;
+    }
+  }
+
+  const { bits: residualBits, ...plan } = planResidual(residual, order);
+  const bits = header + order * bitDepth + residualBits;
+  const verbatimBits = header + samples.length * bitDepth;
+
+  return bits < verbatimBits
+    ? { type: "fixed", bits, order, residual, ...plan }
+    : { type: "verbatim", bits: verbatimBits };
+};
+
+const writeSubframe = (
+  writer: BitWriter,
+  subframe: Subframe,
+  samples: Int32Array,
+  bitDepth: number,
+) => {
+  if (subframe.type === "constant") {
+    writer.write(0b00000000, 8);
+    writer.writeSigned(subframe.value, bitDepth);
+    return;
+  }
+
+  if (subframe.type === "verbatim") {
+    writer.write(0b00000010, 8);
+    for (const sample of samples) writer.writeSigned(sample, bitDepth);
+    return;
+  }
+
+  const { order, residual, partitionOrder, parameters } = subframe;
+  writer.write((0b001000 | order) << 1, 8);
+
+  for (let i = 0; i < order; i++) writer.writeSigned(residual[i], bitDepth);
+
+  const isRice5 = Math.max(...parameters) > MAX_RICE4_PARAMETER;
+  writer.write(isRice5 ? 1 : 0, 2);
+  writer.write(partitionOrder, 4);
+
+  const partitionSize = residual.length >> partitionOrder;
+  parameters.forEach((parameter, partition) => {
+    writer.write(parameter, isRice5 ? 5 : 4);
+
+    const start = Math.max(partition * partitionSize, order);
+    for (let i = start; i < (partition + 1) * partitionSize; i++) {
+      const value = residual[i];
+      const zigzag = value < 0 ? -2 * value - 1 : 2 * value;
+      const quotient = Math.floor(zigzag / 2 ** parameter);
+      const remainder = zigzag % 2 ** parameter;
+
+      // Most values fit a single write of the stop bit and remainder
+      if (quotient + 1 + parameter <= 24) {
+        writer.write(2 ** parameter + remainder, quotient + 1 + parameter);
+      } else {
+        writer.writeUnary(quotient);
+        if (parameter > 0) writer.write(remainder, parameter);
+      }
+    }
+  });
+};
+
+/**
+ * Encode one block of every channel as a frame
+ * Stereo blocks are tried with each kind of side channel, keeping the smallest
+ */
+const writeFrame = (
+  writer: BitWriter,
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitDepth: FlacBitDepth,
+) => {
+  const blockSize = channels[0].length;
+
+  let assignment = channels.length - 1;
+  let coded: Array<{ samples: Int32Array; bitDepth: number }> = channels.map(
+    (samples) => ({ samples, bitDepth }),
+  );
+  let subframes = coded.map(({ samples }) => planSubframe(samples, bitDepth));
+
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const side = left.map((sample, i) => sample - right[i]);
+    const mid = left.map((sample, i) => (sample + right[i]) >> 1);
+    const sideSubframe = planSubframe(side, bitDepth + 1);
+    const midSubframe = planSubframe(mid, bitDepth);
+
+    const options = [
+      { assignment: 1, subframes },
+      { assignment: LEFT_SIDE, subframes: [subframes[0], sideSubframe] },
+      { assignment: RIGHT_SIDE, subframes: [sideSubframe, subframes[1]] },
+      { assignment: MID_SIDE, subframes: [midSubframe, sideSubframe] },
+    ];
+    const best = options.reduce((best, option) =>
+      option.subframes[0].bits + option.subframes[1].bits <
+      best.subframes[0].bits + best.subframes[1].bits
+        ? option
+        : best,
+    );
+
+    assignment = best.assignment;
+    subframes = best.subframes;
+    coded = {
+      1: coded,
+      [LEFT_SIDE]: [coded[0], { samples: side, bitDepth: bitDepth + 1 }],
+      [RIGHT_SIDE]: [{ samples: side, bitDepth: bitDepth + 1 }, coded[1]],
+      [MID_SIDE]: [
+        { samples: mid, bitDepth },
+        { samples: side, bitDepth: bitDepth + 1 },
+      ],
+    }[assignment]!;
+  }
+
+  writer.reset();
+
+  // Frame header, with a fixed block size except for the last frame
+  const isFullBlock = blockSize === BLOCK_SIZE;
+  writer.write(0xfff8, 16);
+  writer.write(isFullBlock ? 12 : 7, 4);
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  writer.write(assignment, 4);
+  writer.write(SAMPLE_SIZE_CODES[bitDepth], 3);
+  writer.write(0, 1);
+  writer.writeUtf8(frameNumber);
+  if (!isFullBlock) writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.view()), 8);
+
+  subframes.forEach((subframe, i) =>
+    writeSubframe(writer, subframe, coded[i].samples, coded[i].bitDepth),
+  );
+
+  writer.alignToByte();
+  writer.write(crc16(writer.view()), 16);
+};
+
+/**
+ * Build the "fLaC" marker and metadata blocks that start the file
+ */
+const createFlacHeader = (
+  { sampleRate, numberOfChannels, length }: PcmAudio,
+  bitDepth: FlacBitDepth,
+  frameSizes: { min: number; max: number },
+  tags?: AudioTags,
+): Uint8Array<ArrayBuffer> => {
+  const comment = encodeVorbisComment(tags);
+  const writer = new BitWriter();
+
+  writer.write(0x664c6143, 32); // "fLaC"
+
+  writer.write(0, 1); // Not the last metadata block
+  writer.write(METADATA_STREAMINFO, 7);
+  writer.write(STREAMINFO_SIZE, 24);
+  writer.write(Math.min(BLOCK_SIZE, length), 16);
+  writer.write(Math.min(BLOCK_SIZE, length), 16);
+  writer.write(frameSizes.min, 24);
+  writer.write(frameSizes.max, 24);
+  writer.write(sampleRate, 20);
+  writer.write(numberOfChannels - 1, 3);
+  writer.write(bitDepth - 1, 5);
+  writer.write(Math.floor(length / 2 ** 32), 4);
+  writer.write(length >>> 0, 32);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // MD5 not computed
+
+  writer.write(1, 1); // Last metadata block
+  writer.write(METADATA_VORBIS_COMMENT, 7);
+  writer.write(comment.length, 24);
+
+  const header = new Uint8Array(writer.byteLength + comment.length);
+  header.set(writer.view());
+  header.set(comment, writer.byteLength);
+
+  return header;
+};
+
+/**
+ * Encode audio as a losslessly compressed FLAC file
+ * Each block is coded with the best fixed predictor for it, and stereo blocks
+ * with the best of left/right, left/side, side/right and mid/side
+ * @param buffer - Rendered audio to encode
+ * @param options - Bit depth, tags, progress callback and abort signal
+ * @returns Blob with the "audio/flac" MIME type
+ */
+export const encodeFlac = async (
+  buffer: PcmAudio,
+  { bitDepth = 16, tags, onProgress, signal }: EncodeFlacOptions = {},
+): Promise<Blob> => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const channels = Array.from({ length: numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i),
+  );
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+
+  const writer = new BitWriter();
+  const frames: Uint8Array<ArrayBuffer>[] = [];
+  const frameSizes = { min: Infinity, max: 0 };
+  const chunkSize = BLOCK_SIZE * BLOCKS_PER_CHUNK;
+
+  for (let start = 0; start < length; start += chunkSize) {
+    signal?.throwIfAborted();
+
+    const end = Math.min(start + chunkSize, length);
+
+    for (let block = start; block < end; block += BLOCK_SIZE) {
+      const blockEnd = Math.min(block + BLOCK_SIZE, length);
+      const samples = channels.map((channel) => {
+        const samples = new Int32Array(blockEnd - block);
+        for (let i = 0; i < samples.length; i++) {
+          const sample = Math.max(-1, Math.min(1, channel[block + i]));
+          samples[i] = Math.round(sample * maxValue);
+        }
+        return samples;
+      });
+
+      writeFrame(writer, samples, block / BLOCK_SIZE, sampleRate, bitDepth);
+
+      frames.push(writer.view().slice());
+      frameSizes.min = Math.min(frameSizes.min, writer.byteLength);
+      frameSizes.max = Math.max(frameSizes.max, writer.byteLength);
+    }
+
+    onProgress?.(end / length);
+
+    // Yield so the UI can repaint and cancel clicks get through
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+
+  if (frames.length === 0) frameSizes.min = 0;
+
+  const header = createFlacHeader(buffer, bitDepth, frameSizes, tags);
+  return new Blob([header, ...frames], { type: "audio/flac" });
+};
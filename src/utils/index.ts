@@ -1,2 +1,32 @@
 export * from "./storage";
 export * from "./audio";
+export * from "./clips";
+export * from "./sequence";
+export * from "./render";
+export * from "./wav";
+export * from "./manifest";
+export * from "./waveform";
+export * from "./time";
+export * from "./loudness";
+export * from "./inspect";
+export * from "./upload";
+export * from "./migrate";
+export * from "./projects";
+export * from "./silence";
+export * from "./decodeCache";
+export * from "./pcm";
+export * from "./workerProtocol";
+export * from "./worker";
+export * from "./analysis";
+export * from "./zip";
+export * from "./archive";
+export * from "./download";
+export * from "./tags";
+export * from "./flac";
+export * from "./opus";
+export * from "./trash";
+export * from "./quota";
+export * from "./mediaSession";
+export * from "./pitchCorrection";
+export * from "./playbackSpeed";
+export * from "./effects";
@@ -0,0 +1,532 @@
+import { decodeOffline } from "./render";
+
+/**
+ * Stream properties read from an audio file
+ */
+export interface AudioInfo {
+  duration: number; // in sec
+  sampleRate?: number; // Hz
+  channels?: number;
+  bitrate?: number; // Average bits per second
+  codec?: string;
+}
+
+/**
+ * Random access to the bytes of an audio file, so headers can be parsed
+ * without loading the whole file
+ */
+export interface AudioSource {
+  size: number; // in bytes
+  read: (start: number, end: number) => Promise<ArrayBuffer>;
+}
+
+const getBlobSource = (blob: Blob): AudioSource => ({
+  size: blob.size,
+  read: (start, end) => blob.slice(start, end).arrayBuffer(),
+});
+
+// Bytes read from the start (and, for Ogg, the end) of a file when parsing headers
+const HEADER_BYTES = 64 * 1024;
+
+const readBytes = async (
+  file: AudioSource,
+  start: number,
+  end: number,
+): Promise<DataView> => new DataView(await file.read(start, end));
+
+const readTag = (view: DataView, offset: number, length = 4): string => {
+  if (offset + length > view.byteLength) return "";
+
+  let tag = "";
+  for (let i = 0; i < length; i++) {
+    tag += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return tag;
+};
+
+const readUint64 = (view: DataView, offset: number, littleEndian = false) => {
+  const high = view.getUint32(offset + (littleEndian ? 4 : 0), littleEndian);
+  const low = view.getUint32(offset + (littleEndian ? 0 : 4), littleEndian);
+  return high * 2 ** 32 + low;
+};
+
+/**
+ * Size of a leading ID3v2 tag, which MP3 and some FLAC files start with
+ */
+const getId3Size = (view: DataView): number => {
+  if (readTag(view, 0, 3) !== "ID3" || view.byteLength < 10) return 0;
+
+  // Tag size is a 28-bit "syncsafe" integer, 7 bits per byte
+  const size =
+    (view.getUint8(6) << 21) |
+    (view.getUint8(7) << 14) |
+    (view.getUint8(8) << 7) |
+    view.getUint8(9);
+  const hasFooter = (view.getUint8(5) & 0x10) !== 0;
+
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+/**
+ * WAV: fmt chunk for the stream format, data chunk size for the duration
+ */
+const parseWav = (view: DataView, fileSize: number): AudioInfo | null => {
+  if (readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") return null;
+
+  let format: { codec: string; channels: number; sampleRate: number } | null =
+    null;
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === "fmt " && offset + 24 <= view.byteLength) {
+      const tag = view.getUint16(offset + 8, true);
+      format = {
+        codec:
+          tag === 3 ? "PCM float" : tag === 1 || tag === 0xfffe ? "PCM" : "WAV",
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+      };
+      byteRate = view.getUint32(offset + 16, true);
+    }
+
+    if (id === "data") {
+      if (!format || byteRate === 0) return null;
+
+      // Streamed recordings may leave the size unset, so trust the file instead
+      const available = fileSize - (offset + 8);
+      const dataSize = size === 0 || size > available ? available : size;
+
+      return {
+        ...format,
+        duration: dataSize / byteRate,
+        bitrate: byteRate * 8,
+      };
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+};
+
+// Bitrates in kbps by [version][layer], index 0 is "free" and unsupported
+const MPEG_BITRATES = {
+  v1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  },
+  v2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  },
+};
+
+const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+
+interface MpegFrame {
+  layer: 1 | 2 | 3;
+  isV1: boolean;
+  bitrate: number; // bps
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number; // bytes
+}
+
+const parseMpegFrame = (view: DataView, offset: number): MpegFrame | null => {
+  if (offset + 4 > view.byteLength) return null;
+
+  const b1 = view.getUint8(offset + 1);
+  const b2 = view.getUint8(offset + 2);
+  const b3 = view.getUint8(offset + 3);
+  if (view.getUint8(offset) !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = (b1 >> 3) & 3; // 0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1
+  const layer = (4 - ((b1 >> 1) & 3)) as 1 | 2 | 3 | 4;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 3;
+
+  if (version === 1 || layer === 4) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isV1 = version === 3;
+  const bitrate = MPEG_BITRATES[isV1 ? "v1" : "v2"][layer][bitrateIndex] * 1000;
+  const sampleRate =
+    MPEG_SAMPLE_RATES[sampleRateIndex] / (isV1 ? 1 : version === 2 ? 2 : 4);
+  const padding = (b2 >> 1) & 1;
+
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isV1 ? 576 : 1152;
+  const frameLength =
+    layer === 1
+      ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+      : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return {
+    layer,
+    isV1,
+    bitrate,
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    frameLength,
+  };
+};
+
+/**
+ * MP3 (and MP1/MP2): first frame header, plus the Xing/Info or VBRI header
+ * that VBR encoders write into it; without one the stream is assumed CBR
+ * @param view - Bytes read from the file starting at base
+ * @param base - Position of the view in the file
+ */
+const parseMpeg = async (
+  file: AudioSource,
+  view: DataView,
+  base: number,
+): Promise<AudioInfo | null> => {
+  // Find two consecutive frames so stray 0xFF bytes aren't taken as a header
+  let offset = 0;
+  let frame: MpegFrame | null = null;
+
+  for (; offset + 4 <= view.byteLength; offset++) {
+    frame = parseMpegFrame(view, offset);
+    if (!frame) continue;
+
+    const nextOffset = offset + frame.frameLength;
+    if (nextOffset + 4 > view.byteLength || parseMpegFrame(view, nextOffset)) {
+      break;
+    }
+    frame = null;
+  }
+
+  if (!frame) return null;
+
+  const info = {
+    sampleRate: frame.sampleRate,
+    channels: frame.channels,
+    codec: `MP${frame.layer}`,
+  };
+
+  // An ID3v1 tag takes the last 128 bytes
+  const tail = await readBytes(file, Math.max(0, file.size - 128), file.size);
+  const audioEnd = readTag(tail, 0, 3) === "TAG" ? file.size - 128 : file.size;
+  const audioBytes = audioEnd - (base + offset);
+
+  // The side info before a Xing header depends on version and channel count
+  const sideInfo = frame.isV1
+    ? frame.channels === 1
+      ? 17
+      : 32
+    : frame.channels === 1
+      ? 9
+      : 17;
+  const xing = offset + 4 + sideInfo;
+  const vbri = offset + 4 + 32;
+
+  let frames = 0;
+  let bytes = 0;
+
+  if (["Xing", "Info"].includes(readTag(view, xing))) {
+    const flags = view.getUint32(xing + 4);
+    let field = xing + 8;
+
+    if (flags & 1 && field + 4 <= view.byteLength) {
+      frames = view.getUint32(field);
+      field += 4;
+    }
+    if (flags & 2 && field + 4 <= view.byteLength) {
+      bytes = view.getUint32(field);
+    }
+  } else if (readTag(view, vbri) === "VBRI" && vbri + 18 <= view.byteLength) {
+    bytes = view.getUint32(vbri + 10);
+    frames = view.getUint32(vbri + 14);
+  }
+
+  if (frames > 0) {
+    const duration = (frames * frame.samplesPerFrame) / frame.sampleRate;
+    return {
+      ...info,
+      duration,
+      bitrate: Math.round(((bytes || audioBytes) * 8) / duration),
+    };
+  }
+
+  return {
+    ...info,
+    duration: (audioBytes * 8) / frame.bitrate,
+    bitrate: frame.bitrate,
+  };
+};
+
+/**
+ * FLAC: STREAMINFO is always the first metadata block
+ */
+const parseFlac = (view: DataView, fileSize: number): AudioInfo | null => {
+  if (readTag(view, 0) !== "fLaC") return null;
+
+  // Skip the 4-byte block header in front of STREAMINFO
+  const info = 8;
+  if ((view.getUint8(4) & 0x7f) !== 0 || info + 18 > view.byteLength) {
+    return null;
+  }
+
+  // 20 bits sample rate, 3 bits channels - 1, 5 bits depth - 1, 36 bits samples
+  const packed = view.getUint32(info + 10);
+  const sampleRate = packed >>> 12;
+  const channels = ((packed >>> 9) & 7) + 1;
+  const totalSamples =
+    (view.getUint8(info + 13) & 0x0f) * 2 ** 32 + view.getUint32(info + 14);
+
+  // Streams of unknown length leave the sample count at 0
+  if (sampleRate === 0 || totalSamples === 0) return null;
+
+  const duration = totalSamples / sampleRate;
+  return {
+    duration,
+    sampleRate,
+    channels,
+    bitrate: Math.round((fileSize * 8) / duration),
+    codec: "FLAC",
+  };
+};
+
+/**
+ * Ogg (Opus or Vorbis): identification header in the first page, duration
+ * from the granule position of the last page
+ */
+const parseOgg = async (
+  file: AudioSource,
+  view: DataView,
+): Promise<AudioInfo | null> => {
+  if (readTag(view, 0) !== "OggS" || view.byteLength < 28) return null;
+
+  const serial = view.getUint32(14, true);
+  const packet = 27 + view.getUint8(26);
+
+  let codec: string;
+  let channels: number;
+  let sampleRate: number;
+  let preSkip = 0;
+
+  if (readTag(view, packet, 8) === "OpusHead") {
+    // Opus always decodes at 48 kHz, granule positions count 48 kHz samples
+    codec = "Opus";
+    channels = view.getUint8(packet + 9);
+    preSkip = view.getUint16(packet + 10, true);
+    sampleRate = 48000;
+  } else if (readTag(view, packet + 1, 6) === "vorbis") {
+    codec = "Vorbis";
+    channels = view.getUint8(packet + 11);
+    sampleRate = view.getUint32(packet + 12, true);
+  } else {
+    return null;
+  }
+
+  // Search backwards for the last page of this stream
+  const tailStart = Math.max(0, file.size - HEADER_BYTES);
+  const tail = await readBytes(file, tailStart, file.size);
+  let granule = 0;
+
+  for (let offset = tail.byteLength - 27; offset >= 0; offset--) {
+    if (
+      readTag(tail, offset) === "OggS" &&
+      tail.getUint32(offset + 14, true) === serial
+    ) {
+      granule = readUint64(tail, offset + 6, true);
+      break;
+    }
+  }
+
+  if (granule <= preSkip || sampleRate === 0) return null;
+
+  const duration = (granule - preSkip) / sampleRate;
+  return {
+    duration,
+    sampleRate,
+    channels,
+    bitrate: Math.round((file.size * 8) / duration),
+    codec,
+  };
+};
+
+const MP4_CODECS: Record<string, string> = {
+  mp4a: "AAC",
+  alac: "ALAC",
+  Opus: "Opus",
+  fLaC: "FLAC",
+  "ac-3": "AC-3",
+  "ec-3": "E-AC-3",
+  ".mp3": "MP3",
+};
+
+// Boxes on the path from a track to its sample description
+const MP4_CONTAINERS = ["mdia", "minf", "stbl"];
+
+type Mp4Track = Partial<AudioInfo> & { isSound?: boolean };
+
+/**
+ * Walk the boxes in view[start, end), calling visit for each one
+ */
+const walkBoxes = (
+  view: DataView,
+  start: number,
+  end: number,
+  visit: (type: string, body: number, end: number) => void,
+) => {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let header = 8;
+
+    if (size === 1) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return;
+
+    visit(
+      readTag(view, offset + 4),
+      offset + header,
+      Math.min(offset + size, end),
+    );
+    offset += size;
+  }
+};
+
+/**
+ * Collect what a track's boxes say about its media
+ */
+const readMp4Box = (
+  view: DataView,
+  track: Mp4Track,
+  type: string,
+  body: number,
+  end: number,
+) => {
+  if (MP4_CONTAINERS.includes(type)) {
+    walkBoxes(view, body, end, (type, body, end) =>
+      readMp4Box(view, track, type, body, end),
+    );
+  } else if (type === "mdhd") {
+    const isV1 = view.getUint8(body) === 1;
+    const timescale = view.getUint32(body + (isV1 ? 20 : 12));
+    const duration = isV1
+      ? readUint64(view, body + 24)
+      : view.getUint32(body + 16);
+    if (timescale > 0) track.duration = duration / timescale;
+  } else if (type === "hdlr") {
+    track.isSound = readTag(view, body + 8) === "soun";
+  } else if (type === "stsd" && body + 44 <= end) {
+    // Full box header and entry count come before the first sample entry
+    const entry = body + 8;
+    const format = readTag(view, entry + 4);
+    track.codec = MP4_CODECS[format] ?? format.trim();
+    track.channels = view.getUint16(entry + 24);
+    track.sampleRate = view.getUint32(entry + 32) >>> 16;
+  }
+};
+
+/**
+ * MP4/M4A: find the moov box (which may sit after the audio data), then read
+ * the first sound track's media header and sample description
+ */
+const parseMp4 = async (file: AudioSource): Promise<AudioInfo | null> => {
+  // Read just the header of each top-level box until moov turns up
+  let offset = 0;
+  let moov: DataView | null = null;
+
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16);
+    const type = readTag(header, 4);
+    if (offset === 0 && type !== "ftyp") return null;
+
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength === 16) size = readUint64(header, 8);
+    if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (type === "moov") {
+      moov = await readBytes(file, offset, offset + size);
+      break;
+    }
+    offset += size;
+  }
+
+  if (!moov) return null;
+
+  const tracks: Mp4Track[] = [];
+  walkBoxes(moov, 8, moov.byteLength, (type, body, end) => {
+    if (type !== "trak") return;
+
+    const track: Mp4Track = {};
+    walkBoxes(moov, body, end, (type, body, end) =>
+      readMp4Box(moov, track, type, body, end),
+    );
+    tracks.push(track);
+  });
+
+  const track = tracks.find(({ isSound, duration }) => isSound && duration);
+  if (!track?.duration) return null;
+
+  return {
+    duration: track.duration,
+    sampleRate: track.sampleRate,
+    channels: track.channels,
+    bitrate: Math.round((file.size * 8) / track.duration),
+    codec: track.codec,
+  };
+};
+
+/**
+ * Read duration and stream properties from an audio file's headers
+ * Understands WAV, MP3, FLAC, Ogg (Opus/Vorbis) and MP4/M4A; anything else,
+ * or a file whose headers can't be parsed, is decoded instead, which only
+ * reveals duration and channel count
+ * @param input - Encoded audio, as a Blob or any other source of its bytes
+ */
+export const inspectAudio = async (
+  input: Blob | AudioSource,
+): Promise<AudioInfo> => {
+  const file = input instanceof Blob ? getBlobSource(input) : input;
+
+  try {
+    const head = await readBytes(file, 0, HEADER_BYTES);
+
+    // MP3 and FLAC may start with an ID3 tag, which can be longer than the header read
+    const id3Size = getId3Size(head);
+    const body =
+      id3Size > 0
+        ? await readBytes(file, id3Size, id3Size + HEADER_BYTES)
+        : head;
+
+    const info =
+      parseWav(head, file.size) ??
+      parseFlac(body, file.size - id3Size) ??
+      (await parseOgg(file, head)) ??
+      (await parseMp4(file)) ??
+      (await parseMpeg(file, body, id3Size));
+
+    if (info) return info;
+  } catch (err) {
+    console.warn("Failed to parse audio headers:", err);
+  }
+
+  // Decoding resamples to the context rate, so the source rate stays unknown
+  const [buffer] = await decodeOffline([await file.read(0, file.size)], 44100);
+  return {
+    duration: buffer.duration,
+    channels: buffer.numberOfChannels,
+    bitrate: Math.round((file.size * 8) / buffer.duration),
+  };
+};
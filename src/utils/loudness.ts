@@ -0,0 +1,135 @@
+import type { PcmAudio } from "./pcm";
+
+type Biquad = { b: [number, number, number]; a: [number, number, number] };
+
+// Gating block length and hop as defined by ITU-R BS.1770
+const BLOCK_SECONDS = 0.4;
+const HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the ungated loudness
+
+// Normalization never boosts a clip by more than this, in dB
+const MAX_NORMALIZE_BOOST = 20;
+
+/**
+ * K-weighting filter coefficients for any sample rate
+ * (high shelf for head acoustics followed by a ~38 Hz high-pass)
+ */
+const getKWeightingFilters = (sampleRate: number): Biquad[] => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+
+  const shelf: Biquad = {
+    b: [
+      (Vh + (Vb * K) / Q + K * K) / a0,
+      (2 * (K * K - Vh)) / a0,
+      (Vh - (Vb * K) / Q + K * K) / a0,
+    ],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+
+  return output;
+};
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Measure the integrated loudness of a buffer (ITU-R BS.1770, gated)
+ * @param buffer - Decoded audio
+ * @returns Loudness in LUFS, or -Infinity for silence
+ */
+export const measureLoudness = (buffer: PcmAudio): number => {
+  const { sampleRate, length, numberOfChannels } = buffer;
+  const filters = getKWeightingFilters(sampleRate);
+
+  const blockSize = Math.min(length, Math.round(BLOCK_SECONDS * sampleRate));
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  if (blockSize === 0) return -Infinity;
+
+  const blockCount = Math.floor((length - blockSize) / hopSize) + 1;
+  const blockPower = new Float64Array(blockCount);
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const weighted = filters.reduce(
+      applyBiquad,
+      buffer.getChannelData(channel),
+    );
+
+    for (let block = 0; block < blockCount; block++) {
+      const start = block * hopSize;
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) {
+        sum += weighted[i] * weighted[i];
+      }
+      blockPower[block] += sum / blockSize;
+    }
+  }
+
+  const gatedMean = (threshold: number) => {
+    let sum = 0;
+    let count = 0;
+    for (const power of blockPower) {
+      if (toLufs(power) > threshold) {
+        sum += power;
+        count++;
+      }
+    }
+    return count > 0 ? sum / count : 0;
+  };
+
+  const ungated = gatedMean(ABSOLUTE_GATE);
+  if (ungated === 0) return -Infinity;
+
+  const integrated = gatedMean(toLufs(ungated) + RELATIVE_GATE);
+  return integrated > 0 ? toLufs(integrated) : -Infinity;
+};
+
+/**
+ * Gain in dB that brings a clip to the target loudness
+ * @param loudness - Measured loudness in LUFS (null for silence)
+ * @param target - Target loudness in LUFS
+ */
+export const getNormalizationGain = (
+  loudness: number | null | undefined,
+  target: number,
+): number => {
+  if (loudness === null || loudness === undefined) return 0;
+  return Math.min(target - loudness, MAX_NORMALIZE_BOOST);
+};
+
+/**
+ * Convert decibels to a linear gain multiplier
+ */
+export const dbToGain = (db: number): number => 10 ** (db / 20);
@@ -0,0 +1,367 @@
+import type { AudioMetadata } from "./audio";
+import type { Crossfade } from "./sequence";
+import { getActiveProjectId, getProjectPath } from "./projects";
+import { OpfsStorage } from "./storage";
+
+/**
+ * Settings that apply to the whole stitched sequence
+ */
+export interface ProjectSettings {
+  normalize: boolean; // Match every clip to targetLoudness
+  targetLoudness: number; // LUFS
+  trimSilence: boolean; // Skip silence detected at the head and tail of clips
+  silenceThreshold: number; // dBFS below which audio counts as silence
+  gap: number; // Pause between items joined by a hard cut, in sec
+}
+
+/**
+ * Project-level manifest stored in each project directory
+ * Holds the user-defined playback order of clip folders and spacers, the
+ * transitions between them and project settings
+ */
+export interface ProjectManifest {
+  version: 1;
+  order: string[]; // Clip folder names and spacer IDs in playback order
+  transitions: Record<string, Crossfade>; // Keyed by getTransitionKey
+  spacers: Record<string, number>; // Length of each spacer in sec, keyed by ID
+  settings: ProjectSettings;
+}
+
+/**
+ * An item of the stitched sequence: a clip, or a spacer with no audio file
+ */
+export type SequenceEntry<T> =
+  | { type: "clip"; id: string; clip: T }
+  | { type: "spacer"; id: string; duration: number };
+
+export const MANIFEST_PATH = "manifest.json";
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  normalize: false,
+  targetLoudness: -16,
+  trimSilence: false,
+  silenceThreshold: -50,
+  gap: 0,
+};
+
+const TRANSITION_KEY_SEPARATOR = ">";
+
+/**
+ * Key of the transition from one item of the playback order into the next
+ * @param from - Clip folder name or spacer ID the transition leaves
+ * @param to - Clip folder name or spacer ID the transition enters
+ */
+export const getTransitionKey = (from: string, to: string): string =>
+  `${from}${TRANSITION_KEY_SEPARATOR}${to}`;
+
+/**
+ * Crossfade from an item into the one after it, if one is set
+ * @param to - Item after `from`, undefined at the end of the order
+ */
+export const getTransition = (
+  transitions: Record<string, Crossfade>,
+  from: string,
+  to: string | undefined,
+): Crossfade | undefined =>
+  to === undefined ? undefined : transitions[getTransitionKey(from, to)];
+
+/**
+ * Transitions into and out of an item
+ */
+export const getItemTransitions = (
+  transitions: Record<string, Crossfade>,
+  id: string,
+): Record<string, Crossfade> =>
+  Object.fromEntries(
+    Object.entries(transitions).filter(([key]) =>
+      key.split(TRANSITION_KEY_SEPARATOR).includes(id),
+    ),
+  );
+
+/**
+ * Point transitions at new item IDs
+ * @param mapId - Returns an item's new ID, or null to drop its transitions
+ */
+export const remapTransitions = (
+  transitions: Record<string, Crossfade>,
+  mapId: (id: string) => string | null,
+): Record<string, Crossfade> =>
+  Object.fromEntries(
+    Object.entries(transitions).flatMap(([key, crossfade]) => {
+      const [from, to] = key.split(TRANSITION_KEY_SEPARATOR).map(mapId);
+      return from && to ? [[getTransitionKey(from, to), crossfade]] : [];
+    }),
+  );
+
+const createManifest = (
+  manifest: Partial<ProjectManifest> = {},
+): ProjectManifest => ({
+  version: 1,
+  order: Array.isArray(manifest.order) ? manifest.order : [],
+  transitions: manifest.transitions ?? {},
+  spacers: manifest.spacers ?? {},
+  settings: { ...DEFAULT_PROJECT_SETTINGS, ...manifest.settings },
+});
+
+// Serializes read-modify-write cycles so concurrent updates don't drop changes
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read the manifest of the active project, falling back to an empty one if it
+ * doesn't exist yet
+ * @param path - Manifest path, defaults to the one of the active project
+ */
+export const readManifest = async (
+  path: string = getProjectPath(MANIFEST_PATH),
+): Promise<ProjectManifest> => {
+  const { exists } = await OpfsStorage.getFileDetails(path);
+  if (!exists) return createManifest();
+
+  try {
+    const buffer = await OpfsStorage.readFile(path);
+    const text = new TextDecoder().decode(buffer);
+    return createManifest(JSON.parse(text) as Partial<ProjectManifest>);
+  } catch (err) {
+    console.error("Failed to read project manifest:", err);
+    return createManifest();
+  }
+};
+
+/**
+ * Apply a change to the project manifest and persist it
+ * @param update - Returns the new manifest, or null to leave it untouched
+ * @param projectId - Project to update, defaults to the active one
+ */
+export const updateManifest = (
+  update: (manifest: ProjectManifest) => ProjectManifest | null,
+  projectId: string = getActiveProjectId(),
+): Promise<void> => {
+  // Resolve the project now so switching mid-update can't redirect the write
+  const path = getProjectPath(MANIFEST_PATH, projectId);
+
+  const next = pendingUpdate.then(async () => {
+    const manifest = update(await readManifest(path));
+    if (!manifest) return;
+
+    await OpfsStorage.saveFile(path, JSON.stringify(manifest, null, 2));
+  });
+
+  pendingUpdate = next.catch(() => {});
+  return next;
+};
+
+/**
+ * Persist a new playback order
+ * @param order - Clip folder names in playback order
+ */
+export const saveManifestOrder = (order: string[]): Promise<void> =>
+  updateManifest((manifest) => ({ ...manifest, order: [...new Set(order)] }));
+
+/**
+ * Add a clip folder to the end of the playback order (no-op if already present)
+ * @param projectId - Project to update, defaults to the active one
+ */
+export const appendToManifest = (
+  folderName: string,
+  projectId?: string,
+): Promise<void> =>
+  updateManifest(
+    (manifest) =>
+      manifest.order.includes(folderName)
+        ? null
+        : { ...manifest, order: [...manifest.order, folderName] },
+    projectId,
+  );
+
+/**
+ * Remove a clip folder or spacer, and the transitions into and out of it, from
+ * the manifest
+ * @param projectId - Project to update, defaults to the active one
+ */
+export const removeFromManifest = (
+  folderName: string,
+  projectId?: string,
+): Promise<void> =>
+  updateManifest((manifest) => {
+    const transitions = remapTransitions(manifest.transitions, (id) =>
+      id === folderName ? null : id,
+    );
+
+    const spacers = { ...manifest.spacers };
+    delete spacers[folderName];
+
+    return {
+      ...manifest,
+      order: manifest.order.filter((name) => name !== folderName),
+      transitions,
+      spacers,
+    };
+  }, projectId);
+
+const SPACER_ID_PREFIX = "spacer-";
+
+export const createSpacerId = (): string =>
+  `${SPACER_ID_PREFIX}${crypto.randomUUID()}`;
+
+/**
+ * Whether an entry of the playback order is a spacer rather than a clip folder
+ */
+export const isSpacerId = (id: string): boolean =>
+  id.startsWith(SPACER_ID_PREFIX);
+
+/**
+ * Add a spacer to the end of the playback order
+ * @param duration - Length of the pause in sec
+ * @returns ID of the new spacer
+ */
+export const appendManifestSpacer = async (
+  duration: number,
+): Promise<string> => {
+  const id = createSpacerId();
+
+  await updateManifest((manifest) => ({
+    ...manifest,
+    order: [...manifest.order, id],
+    spacers: { ...manifest.spacers, [id]: duration },
+  }));
+
+  return id;
+};
+
+/**
+ * Change the length of a spacer
+ * @param id - Spacer to update
+ * @param duration - Length of the pause in sec
+ */
+export const saveManifestSpacer = (
+  id: string,
+  duration: number,
+): Promise<void> =>
+  updateManifest((manifest) =>
+    id in manifest.spacers
+      ? { ...manifest, spacers: { ...manifest.spacers, [id]: duration } }
+      : null,
+  );
+
+/**
+ * Point the manifest at a clip's new folder, keeping its position and transitions
+ * @param from - Previous folder name
+ * @param to - New folder name
+ * @param projectId - Project to update, defaults to the active one
+ */
+export const renameInManifest = (
+  from: string,
+  to: string,
+  projectId?: string,
+): Promise<void> =>
+  updateManifest(
+    (manifest) => ({
+      ...manifest,
+      order: manifest.order.map((name) => (name === from ? to : name)),
+      transitions: remapTransitions(manifest.transitions, (id) =>
+        id === from ? to : id,
+      ),
+    }),
+    projectId,
+  );
+
+/**
+ * Set or clear the crossfade from a clip into the one after it
+ * The setting belongs to the pair, so it no longer applies once either clip
+ * gets a different neighbour
+ * @param from - Folder of the clip the transition leaves
+ * @param to - Folder of the clip the transition enters
+ * @param crossfade - New crossfade, or null for a hard cut
+ */
+export const saveManifestTransition = (
+  from: string,
+  to: string,
+  crossfade: Crossfade | null,
+): Promise<void> =>
+  updateManifest((manifest) => {
+    const transitions = { ...manifest.transitions };
+    const key = getTransitionKey(from, to);
+
+    if (crossfade) {
+      transitions[key] = crossfade;
+    } else {
+      delete transitions[key];
+    }
+
+    return { ...manifest, transitions };
+  });
+
+/**
+ * Update project settings
+ * @param changes - Settings to overwrite
+ */
+export const saveManifestSettings = (
+  changes: Partial<ProjectSettings>,
+): Promise<void> =>
+  updateManifest((manifest) => ({
+    ...manifest,
+    settings: { ...manifest.settings, ...changes },
+  }));
+
+/**
+ * Sort items by the manifest order
+ * Items missing from the manifest (e.g. uploaded before it existed) go last,
+ * oldest upload first, so they behave as if they had been appended
+ * @param items - Items to sort
+ * @param order - Clip folder names in playback order
+ * @param getMetadata - Returns the clip metadata of an item
+ */
+export const sortByManifest = <T>(
+  items: T[],
+  order: string[],
+  getMetadata: (item: T) => Pick<AudioMetadata, "folderName" | "uploadedAt">,
+): T[] => {
+  const positions = new Map(order.map((name, index) => [name, index]));
+
+  return [...items].sort((a, b) => {
+    const keyA = getMetadata(a);
+    const keyB = getMetadata(b);
+    const posA = positions.get(keyA.folderName) ?? Infinity;
+    const posB = positions.get(keyB.folderName) ?? Infinity;
+
+    if (posA !== posB) return posA - posB;
+    return keyA.uploadedAt - keyB.uploadedAt;
+  });
+};
+
+/**
+ * Interleave clips with the spacers of the manifest, in playback order
+ * @param items - Clips, already sorted with sortByManifest
+ * @param order - Clip folder names and spacer IDs in playback order
+ * @param spacers - Spacer lengths keyed by ID
+ * @param getMetadata - Returns the clip metadata of an item
+ */
+export const getSequenceEntries = <T>(
+  items: T[],
+  order: string[],
+  spacers: Record<string, number>,
+  getMetadata: (item: T) => Pick<AudioMetadata, "folderName">,
+): SequenceEntry<T>[] => {
+  const byFolder = new Map(
+    items.map((item) => [getMetadata(item).folderName, item]),
+  );
+  const entries: SequenceEntry<T>[] = [];
+
+  for (const id of order) {
+    const clip = byFolder.get(id);
+
+    if (id in spacers) {
+      entries.push({ type: "spacer", id, duration: spacers[id] });
+    } else if (clip) {
+      entries.push({ type: "clip", id, clip });
+      byFolder.delete(id);
+    }
+  }
+
+  // Clips missing from the manifest keep the order they were given in
+  for (const [id, clip] of byFolder) {
+    entries.push({ type: "clip", id, clip });
+  }
+
+  return entries;
+};
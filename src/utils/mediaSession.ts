@@ -0,0 +1,140 @@
+import { createPcmAudio } from "./pcm";
+import { encodeWav } from "./wav";
+
+/**
+ * What the OS media controls show for the clip that is playing
+ */
+export interface NowPlaying {
+  title: string;
+  album?: string;
+  artwork?: string; // Image URL, object URLs included
+}
+
+export type MediaSessionHandlers = Partial<
+  Record<MediaSessionAction, MediaSessionActionHandler>
+>;
+
+// Sample rate of the silent loop keeping the media session alive, which
+// lasts a second
+const ANCHOR_SAMPLE_RATE = 8000;
+
+let anchor: Promise<HTMLAudioElement> | null = null;
+
+export const isMediaSessionSupported = (): boolean =>
+  "mediaSession" in navigator;
+
+/**
+ * Browsers only show media controls for pages playing a media element and
+ * Web Audio output doesn't count, so a silent loop plays alongside it
+ */
+const getAnchor = (): Promise<HTMLAudioElement> => {
+  anchor ??= (async () => {
+    const silence = await encodeWav(
+      createPcmAudio({
+        sampleRate: ANCHOR_SAMPLE_RATE,
+        channels: [new Float32Array(ANCHOR_SAMPLE_RATE)],
+      }),
+    );
+
+    const audio = new Audio(URL.createObjectURL(silence));
+    audio.loop = true;
+    return audio;
+  })();
+
+  return anchor;
+};
+
+/**
+ * Tell the OS whether the sequence is playing
+ * @param state - "none" hides the media controls again
+ */
+export const setMediaSessionState = async (
+  state: MediaSessionPlaybackState,
+): Promise<void> => {
+  if (!isMediaSessionSupported()) return;
+
+  navigator.mediaSession.playbackState = state;
+
+  const audio = await getAnchor();
+  if (state === "playing") {
+    // Autoplay rules may refuse before the user interacted; the controls
+    // then simply stay hidden
+    await audio.play().catch(() => undefined);
+  } else {
+    audio.pause();
+  }
+};
+
+/**
+ * Show a clip in the OS media controls
+ * @param nowPlaying - Clip details, or null to clear them
+ */
+export const setMediaSessionMetadata = (nowPlaying: NowPlaying | null) => {
+  if (!isMediaSessionSupported()) return;
+
+  navigator.mediaSession.metadata = nowPlaying
+    ? new MediaMetadata({
+        title: nowPlaying.title,
+        album: nowPlaying.album,
+        artwork: nowPlaying.artwork ? [{ src: nowPlaying.artwork }] : [],
+      })
+    : null;
+};
+
+/**
+ * Update the position shown in the OS media controls
+ * The OS advances it by itself while playing, so this is only needed when
+ * playback starts, stops or jumps
+ * @param duration - Length of the sequence in seconds, 0 to clear
+ * @param position - Playback position in seconds
+ * @param playbackRate - Speed the position moves at
+ */
+export const setMediaSessionPosition = (
+  duration: number,
+  position = 0,
+  playbackRate = 1,
+) => {
+  if (!isMediaSessionSupported()) return;
+
+  try {
+    navigator.mediaSession.setPositionState(
+      duration > 0
+        ? {
+            duration,
+            playbackRate,
+            position: Math.min(Math.max(0, position), duration),
+          }
+        : undefined,
+    );
+  } catch (err) {
+    console.warn("Failed to update the media session position:", err);
+  }
+};
+
+/**
+ * Handle the OS media keys and controls
+ * @returns Function removing the handlers again
+ */
+export const setMediaSessionHandlers = (
+  handlers: MediaSessionHandlers,
+): VoidFunction => {
+  if (!isMediaSessionSupported()) return () => undefined;
+
+  const actions = Object.keys(handlers) as MediaSessionAction[];
+
+  const setHandlers = (clear: boolean) => {
+    for (const action of actions) {
+      try {
+        navigator.mediaSession.setActionHandler(
+          action,
+          clear ? null : (handlers[action] ?? null),
+        );
+      } catch {
+        // Browsers throw for actions they don't support
+      }
+    }
+  };
+
+  setHandlers(false);
+  return () => setHandlers(true);
+};
@@ -0,0 +1,146 @@
+import { getMimeTypeFromExtension, isValidAudioFile } from "./audio";
+import {
+  COVER_FILE_NAME,
+  createClipId,
+  getClipPath,
+  isClipId,
+  readAudioMetadata,
+  saveAudioClip,
+} from "./clips";
+import { renameInManifest } from "./manifest";
+import { getActiveProjectId, getProjectPath } from "./projects";
+import { OpfsStorage } from "./storage";
+import { TRASH_DIR } from "./trash";
+
+// Left in a name-based folder while it's migrated, so a migration that gets
+// interrupted picks up where it stopped instead of duplicating clips
+const MIGRATION_MARKER = "migration.json";
+
+interface MigrationMarker {
+  clipId: string; // Clip ID folder the clip is moved into
+  orphans: string[]; // Files already added back as clips of their own
+}
+
+const readMigrationMarker = async (
+  folderName: string,
+  projectId: string,
+): Promise<MigrationMarker> => {
+  const buffer = await OpfsStorage.readFile(
+    getClipPath(folderName, MIGRATION_MARKER, projectId),
+  );
+  return JSON.parse(new TextDecoder().decode(buffer)) as MigrationMarker;
+};
+
+const saveMigrationMarker = (
+  folderName: string,
+  marker: MigrationMarker,
+  projectId: string,
+): Promise<void> =>
+  OpfsStorage.saveFile(
+    getClipPath(folderName, MIGRATION_MARKER, projectId),
+    JSON.stringify(marker, null, 2),
+  );
+
+/**
+ * Move a folder named after its file into a new clip ID folder
+ * Files the metadata doesn't account for (e.g. "intro.wav" uploaded into the
+ * folder of "intro.mp3") are added back as clips of their own
+ * @param folderName - Name-based folder to migrate
+ * @param projectId - Project the folder belongs to
+ */
+const migrateClipFolder = async (folderName: string, projectId: string) => {
+  const metadata = await readAudioMetadata(folderName, projectId);
+  const files = await OpfsStorage.listFiles(
+    getProjectPath(folderName, projectId),
+  );
+
+  // Pick the clip ID before copying anything, so a second run reuses it
+  let marker: MigrationMarker;
+  if (files.includes(MIGRATION_MARKER)) {
+    marker = await readMigrationMarker(folderName, projectId);
+  } else {
+    marker = { clipId: createClipId(), orphans: [] };
+    await saveMigrationMarker(folderName, marker, projectId);
+  }
+
+  const { clipId } = marker;
+
+  const keep = [metadata.fileName];
+  if (metadata.cover === COVER_FILE_NAME) keep.push(COVER_FILE_NAME);
+
+  for (const file of keep.filter((file) => files.includes(file))) {
+    await OpfsStorage.saveFileStream(
+      getClipPath(clipId, file, projectId),
+      await OpfsStorage.readFileStream(
+        getClipPath(folderName, file, projectId),
+      ),
+    );
+  }
+
+  await OpfsStorage.saveFile(
+    getClipPath(clipId, "metadata.json", projectId),
+    JSON.stringify({ ...metadata, folderName: clipId }, null, 2),
+  );
+  await renameInManifest(folderName, clipId, projectId);
+
+  const orphans = files.filter(
+    (file) =>
+      file !== "metadata.json" &&
+      file !== MIGRATION_MARKER &&
+      !keep.includes(file) &&
+      !marker.orphans.includes(file),
+  );
+
+  for (const name of orphans) {
+    const data = await OpfsStorage.readFile(
+      getClipPath(folderName, name, projectId),
+    );
+    const file = new File([data], name, {
+      type: getMimeTypeFromExtension(name),
+    });
+    if (isValidAudioFile(file)) {
+      await saveAudioClip(file, undefined, projectId);
+    }
+
+    marker.orphans.push(name);
+    await saveMigrationMarker(folderName, marker, projectId);
+  }
+
+  // Only remove the old folder once everything has been copied out of it
+  await OpfsStorage.deleteDirectory(getProjectPath(folderName, projectId));
+};
+
+// Migrations already started, keyed by project
+const migrations = new Map<string, Promise<void>>();
+
+/**
+ * Move clips of the active project stored by older versions into clip ID folders
+ * Runs once per project and session; later calls wait for the first one to finish
+ */
+export const migrateClipFolders = (): Promise<void> => {
+  const projectId = getActiveProjectId();
+
+  let migration = migrations.get(projectId);
+  if (migration) return migration;
+
+  migration = (async () => {
+    const directories = await OpfsStorage.listDirectories(
+      getProjectPath("", projectId),
+    );
+
+    const legacy = directories.filter(
+      (name) => !isClipId(name) && name !== TRASH_DIR,
+    );
+
+    for (const folderName of legacy) {
+      try {
+        await migrateClipFolder(folderName, projectId);
+      } catch (err) {
+        console.error(`Failed to migrate clip folder ${folderName}:`, err);
+      }
+    }
+  })();
+
+  migrations.set(projectId, migration);
+  return migration;
+};
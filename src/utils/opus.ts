@@ -0,0 +1,302 @@
+import type { PcmAudio } from "./pcm";
+import { encodeVorbisComment, type AudioTags } from "./tags";
+
+export interface EncodeOpusOptions {
+  bitrate?: number; // Bits per second
+  tags?: AudioTags; // Written as the OpusTags header
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+/**
+ * Opus always decodes at 48 kHz, so audio rendered at this rate isn't resampled
+ */
+export const OPUS_SAMPLE_RATE = 48000;
+
+export const DEFAULT_OPUS_BITRATE = 128000;
+
+// Number of frames handed to the encoder between progress reports / yields
+const FRAMES_PER_CHUNK = 1 << 16;
+
+// Samples the decoder drops from the start: libopus' lookahead at 48 kHz,
+// which every browser encodes with
+const PRE_SKIP = 312;
+
+// Default packet length, for chunks that don't report a duration
+const DEFAULT_PACKET_DURATION_US = 20000;
+
+// Packets gathered into one Ogg page before it's written
+const PACKETS_PER_PAGE = 50;
+const MAX_PAGE_SEGMENTS = 255;
+
+const OGG_HEADER_SIZE = 27;
+const OGG_BEGINNING_OF_STREAM = 0x02;
+const OGG_END_OF_STREAM = 0x04;
+
+const OGG_CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n << 24;
+  for (let k = 0; k < 8; k++) {
+    c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+  }
+  return c >>> 0;
+});
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+interface OpusPacket {
+  data: Uint8Array<ArrayBuffer>;
+  samples: number; // Length at 48 kHz
+}
+
+const getOpusConfig = (
+  sampleRate: number,
+  numberOfChannels: number,
+  bitrate: number,
+): AudioEncoderConfig => ({
+  codec: "opus",
+  sampleRate,
+  numberOfChannels,
+  bitrate,
+});
+
+/**
+ * Whether this browser can encode Opus, through WebCodecs
+ */
+export const isOpusEncodingSupported = async (
+  numberOfChannels = 2,
+): Promise<boolean> => {
+  if (typeof AudioEncoder === "undefined") return false;
+
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(
+      getOpusConfig(OPUS_SAMPLE_RATE, numberOfChannels, DEFAULT_OPUS_BITRATE),
+    );
+    return supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Build one Ogg page holding whole packets
+ * @param granule - Position in 48 kHz samples at the end of the last packet
+ */
+const createOggPage = (
+  packets: Uint8Array[],
+  granule: number,
+  sequence: number,
+  serial: number,
+  flags = 0,
+): Uint8Array<ArrayBuffer> => {
+  // A packet takes a 255 lacing value for every full 255 bytes, then the rest
+  const lacing = packets.flatMap(({ length }) => [
+    ...Array<number>(Math.floor(length / 255)).fill(255),
+    length % 255,
+  ]);
+  const dataSize = packets.reduce((size, { length }) => size + length, 0);
+
+  const page = new Uint8Array(OGG_HEADER_SIZE + lacing.length + dataSize);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0); // Version
+  view.setUint8(5, flags);
+  view.setBigInt64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, OGG_HEADER_SIZE);
+
+  let offset = OGG_HEADER_SIZE + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  // The checksum is computed with its own field set to zero
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const createOpusHead = (
+  numberOfChannels: number,
+  sampleRate: number,
+): Uint8Array<ArrayBuffer> => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+
+  head.set(new TextEncoder().encode("OpusHead"));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, numberOfChannels);
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true); // Original rate, informational only
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Channel mapping family: mono or stereo
+
+  return head;
+};
+
+const createOpusTags = (tags?: AudioTags): Uint8Array<ArrayBuffer> => {
+  const comment = encodeVorbisComment(tags);
+  const packet = new Uint8Array(8 + comment.length);
+
+  packet.set(new TextEncoder().encode("OpusTags"));
+  packet.set(comment, 8);
+
+  return packet;
+};
+
+/**
+ * Put encoded Opus packets into an Ogg stream, as .opus files are
+ * @param length - Length of the audio in 48 kHz samples, to trim the last packet
+ */
+const muxOggOpus = (
+  packets: OpusPacket[],
+  length: number,
+  numberOfChannels: number,
+  sampleRate: number,
+  tags?: AudioTags,
+): Uint8Array<ArrayBuffer>[] => {
+  const serial = crypto.getRandomValues(new Uint32Array(1))[0];
+  const pages = [
+    createOggPage(
+      [createOpusHead(numberOfChannels, sampleRate)],
+      0,
+      0,
+      serial,
+      OGG_BEGINNING_OF_STREAM,
+    ),
+    createOggPage([createOpusTags(tags)], 0, 1, serial),
+  ];
+
+  let granule = PRE_SKIP;
+  let page: Uint8Array[] = [];
+  let segments = 0;
+
+  packets.forEach(({ data, samples }, i) => {
+    page.push(data);
+    segments += Math.floor(data.length / 255) + 1;
+    granule += samples;
+
+    const next = packets[i + 1];
+    const isLast = !next;
+    const isFull =
+      page.length >= PACKETS_PER_PAGE ||
+      (next &&
+        segments + Math.floor(next.data.length / 255) + 1 > MAX_PAGE_SEGMENTS);
+
+    if (!isLast && !isFull) return;
+
+    // The last page ends where the audio does, dropping encoder padding
+    pages.push(
+      createOggPage(
+        page,
+        isLast ? Math.min(granule, PRE_SKIP + length) : granule,
+        pages.length,
+        serial,
+        isLast ? OGG_END_OF_STREAM : 0,
+      ),
+    );
+    page = [];
+    segments = 0;
+  });
+
+  return pages;
+};
+
+/**
+ * Encode audio as Opus in an Ogg container, through WebCodecs
+ * Check isOpusEncodingSupported first; audio at OPUS_SAMPLE_RATE is encoded
+ * without resampling
+ * @param buffer - Rendered mono or stereo audio to encode
+ * @param options - Bitrate, tags, progress callback and abort signal
+ * @returns Blob with the "audio/ogg" MIME type
+ */
+export const encodeOpus = async (
+  buffer: PcmAudio,
+  {
+    bitrate = DEFAULT_OPUS_BITRATE,
+    tags,
+    onProgress,
+    signal,
+  }: EncodeOpusOptions = {},
+): Promise<Blob> => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+
+  if (numberOfChannels > 2) {
+    throw new Error("Opus export supports mono and stereo audio only");
+  }
+
+  const packets: OpusPacket[] = [];
+  let failure: DOMException | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+
+      const duration = chunk.duration ?? DEFAULT_PACKET_DURATION_US;
+      packets.push({
+        data,
+        samples: Math.round((duration * OPUS_SAMPLE_RATE) / 1e6),
+      });
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+
+  try {
+    encoder.configure(getOpusConfig(sampleRate, numberOfChannels, bitrate));
+
+    for (let start = 0; start < length; start += FRAMES_PER_CHUNK) {
+      signal?.throwIfAborted();
+      if (failure) throw failure;
+
+      const frames = Math.min(FRAMES_PER_CHUNK, length - start);
+      const data = new Float32Array(frames * numberOfChannels);
+
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const samples = buffer.getChannelData(channel);
+        data.set(samples.subarray(start, start + frames), channel * frames);
+      }
+
+      const audioData = new AudioData({
+        format: "f32-planar",
+        sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((start / sampleRate) * 1e6),
+        data,
+      });
+      encoder.encode(audioData);
+      audioData.close();
+
+      onProgress?.((start + frames) / length);
+
+      // Yield so the UI can repaint and cancel clicks get through
+      await new Promise((resolve) => setTimeout(resolve));
+    }
+
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  const pages = muxOggOpus(
+    packets,
+    Math.round((length * OPUS_SAMPLE_RATE) / sampleRate),
+    numberOfChannels,
+    sampleRate,
+    tags,
+  );
+
+  return new Blob(pages, { type: "audio/ogg" });
+};
@@ -0,0 +1,43 @@
+/**
+ * The parts of an AudioBuffer that analysis and encoding read
+ * AudioBuffer itself doesn't exist in workers, so anything that runs there
+ * takes this instead
+ */
+export type PcmAudio = Pick<
+  AudioBuffer,
+  "sampleRate" | "length" | "numberOfChannels" | "duration" | "getChannelData"
+>;
+
+/**
+ * Raw samples of an AudioBuffer that can be posted to a worker
+ */
+export interface PcmData {
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+}
+
+/**
+ * Copy the samples out of a buffer so they can be transferred to a worker
+ * without detaching the buffer's own data
+ */
+export const copyPcmData = (buffer: PcmAudio): PcmData => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i).slice(),
+  ),
+});
+
+/**
+ * Wrap posted samples so they can be read like an AudioBuffer
+ */
+export const createPcmAudio = ({ sampleRate, channels }: PcmData): PcmAudio => {
+  const length = channels[0]?.length ?? 0;
+
+  return {
+    sampleRate,
+    length,
+    numberOfChannels: channels.length,
+    duration: length / sampleRate,
+    getChannelData: (channel) => channels[channel],
+  };
+};
@@ -0,0 +1,274 @@
+/**
+ * Name the pitch correction AudioWorkletProcessor is registered under
+ */
+export const PITCH_CORRECTION_PROCESSOR = "pitch-correction";
+
+/**
+ * Options the pitch correction worklet is created with
+ */
+export interface PitchCorrectionOptions {
+  speed: number; // Playback rate of the sources feeding the worklet
+}
+
+/**
+ * Message asking the worklet to stop processing so it can be collected
+ */
+export const PITCH_CORRECTION_DISPOSE = "dispose";
+
+// Length of the grains stretched audio is assembled from
+const FRAME_DURATION = 0.025; // in sec
+
+// How far a grain may move from its nominal position to line up with the
+// previous one, as a fraction of the grain length
+const SEARCH_TOLERANCE = 0.25;
+
+// Positions are searched coarsely first, then refined around the best one
+const SEARCH_STEP = 2;
+
+// Input consumed before old samples are dropped from the buffers
+const COMPACT_THRESHOLD = 1 << 14;
+
+const ensureCapacity = (
+  buffers: Float32Array[],
+  capacity: number,
+): Float32Array[] => {
+  if (buffers[0].length >= capacity) return buffers;
+
+  let size = buffers[0].length;
+  while (size < capacity) size *= 2;
+
+  return buffers.map((buffer) => {
+    const grown = new Float32Array(size);
+    grown.set(buffer);
+    return grown;
+  });
+};
+
+/**
+ * Undo the pitch change of audio played faster or slower, as a stream
+ * Sources played at `speed` are shifted in pitch by that factor. This shortens
+ * them by another `speed` with WSOLA (overlap-adding grains picked where they
+ * line up best with what came before), keeping their pitch, then resamples the
+ * result back to full length, which keeps the tempo and undoes the shift.
+ * Output lags input by a little over one grain.
+ */
+export class PitchCorrector {
+  private readonly speed: number;
+  private readonly frameSize: number;
+  private readonly synthesisHop: number; // Output distance between grains
+  private readonly analysisHop: number; // Nominal input distance between grains
+  private readonly tolerance: number;
+  private readonly window: Float32Array;
+
+  private input: Float32Array[];
+  private inputLength: number;
+  private stretched: Float32Array[];
+  private finalized = 0; // Stretched samples no later grain adds to
+
+  private analysisPosition: number; // Nominal input position of the next grain
+  // Input position that seamlessly continues the last grain
+  private continuation: number | null = null;
+  private readPosition = 0; // Resampler position in the stretched audio
+
+  private readonly reference: Float32Array;
+  private readonly candidates: Float32Array;
+
+  constructor(numberOfChannels: number, sampleRate: number, speed: number) {
+    this.speed = speed;
+    this.frameSize = 2 * Math.round((sampleRate * FRAME_DURATION) / 2);
+    this.synthesisHop = this.frameSize / 2;
+    this.analysisHop = this.synthesisHop * speed;
+    this.tolerance = Math.round(this.frameSize * SEARCH_TOLERANCE);
+
+    // Hann windows at half-grain hops sum to one
+    this.window = Float32Array.from(
+      { length: this.frameSize },
+      (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.frameSize),
+    );
+
+    const capacity = 4 * (this.frameSize + this.tolerance);
+    this.input = Array.from(
+      { length: numberOfChannels },
+      () => new Float32Array(capacity),
+    );
+    this.stretched = Array.from(
+      { length: numberOfChannels },
+      () => new Float32Array(capacity),
+    );
+
+    // Leading silence so the first grains have room to search
+    this.inputLength = this.tolerance;
+    this.analysisPosition = this.tolerance;
+
+    this.reference = new Float32Array(this.synthesisHop);
+    this.candidates = new Float32Array(
+      this.synthesisHop + 2 * this.tolerance + 1,
+    );
+  }
+
+  /**
+   * Add input samples
+   * @param channels - One array per channel, missing channels count as silence
+   * @param length - Number of samples in each channel
+   */
+  push(channels: Float32Array[], length: number) {
+    this.input = ensureCapacity(this.input, this.inputLength + length);
+
+    this.input.forEach((buffer, channel) => {
+      const samples = channels[channel] ?? channels[0];
+      if (samples) buffer.set(samples.subarray(0, length), this.inputLength);
+      else buffer.fill(0, this.inputLength, this.inputLength + length);
+    });
+
+    this.inputLength += length;
+  }
+
+  /**
+   * Fill output buffers with corrected audio
+   * Outputs silence while too little input has been pushed, which only
+   * happens at the start
+   */
+  pull(outputs: Float32Array[]) {
+    const length = outputs[0]?.length ?? 0;
+
+    for (let i = 0; i < length; i++) {
+      const index = Math.floor(this.readPosition);
+
+      while (index + 1 >= this.finalized) {
+        if (this.addGrain()) continue;
+
+        for (const output of outputs) output.fill(0, i);
+        return;
+      }
+
+      const fraction = this.readPosition - index;
+      outputs.forEach((output, channel) => {
+        const samples = this.stretched[channel];
+        output[i] =
+          samples[index] + (samples[index + 1] - samples[index]) * fraction;
+      });
+
+      this.readPosition += 1 / this.speed;
+    }
+
+    this.compact();
+  }
+
+  /**
+   * Overlap-add the next grain onto the stretched audio
+   * @returns Whether there was enough input to do so
+   */
+  private addGrain(): boolean {
+    const { frameSize, synthesisHop, tolerance } = this;
+    const nominal = Math.round(this.analysisPosition);
+    const { continuation } = this;
+
+    const needed =
+      continuation === null
+        ? nominal + frameSize
+        : Math.max(nominal + tolerance, continuation) + frameSize;
+    if (needed > this.inputLength) return false;
+
+    const position =
+      continuation === null
+        ? nominal
+        : this.findBestPosition(nominal, continuation);
+    const start = this.finalized;
+
+    this.stretched = ensureCapacity(this.stretched, start + frameSize);
+
+    this.stretched.forEach((output, channel) => {
+      const input = this.input[channel];
+
+      // The second half hasn't been written by any grain yet
+      output.fill(0, start + synthesisHop, start + frameSize);
+      for (let i = 0; i < frameSize; i++) {
+        output[start + i] += input[position + i] * this.window[i];
+      }
+    });
+
+    this.finalized += synthesisHop;
+    this.continuation = position + synthesisHop;
+    this.analysisPosition += this.analysisHop;
+    return true;
+  }
+
+  /**
+   * Find the grain position near `nominal` whose start best matches the
+   * continuation of the previous grain, by normalized cross-correlation of
+   * the channels' mix
+   */
+  private findBestPosition(nominal: number, continuation: number): number {
+    const { reference, candidates, tolerance, synthesisHop } = this;
+    const first = nominal - tolerance;
+
+    this.mixDown(continuation, reference);
+    this.mixDown(first, candidates);
+
+    const score = (offset: number): number => {
+      let correlation = 0;
+      let energy = 0;
+      for (let i = 0; i < synthesisHop; i += SEARCH_STEP) {
+        const sample = candidates[offset + i];
+        correlation += sample * reference[i];
+        energy += sample * sample;
+      }
+      return correlation / Math.sqrt(energy + 1e-9);
+    };
+
+    let best = tolerance;
+    let bestScore = -Infinity;
+
+    for (let offset = 0; offset <= 2 * tolerance; offset += SEARCH_STEP) {
+      const value = score(offset);
+      if (value > bestScore) [best, bestScore] = [offset, value];
+    }
+
+    for (const offset of [best - 1, best + 1]) {
+      if (offset < 0 || offset > 2 * tolerance) continue;
+
+      const value = score(offset);
+      if (value > bestScore) [best, bestScore] = [offset, value];
+    }
+
+    return first + best;
+  }
+
+  private mixDown(from: number, target: Float32Array) {
+    target.fill(0);
+
+    for (const input of this.input) {
+      for (let i = 0; i < target.length; i++) target[i] += input[from + i];
+    }
+  }
+
+  /**
+   * Drop samples that are no longer needed once enough have piled up
+   */
+  private compact() {
+    const inputStart = Math.min(
+      this.continuation ?? 0,
+      Math.round(this.analysisPosition) - this.tolerance,
+    );
+
+    if (this.continuation !== null && inputStart >= COMPACT_THRESHOLD) {
+      for (const buffer of this.input) {
+        buffer.copyWithin(0, inputStart, this.inputLength);
+      }
+      this.inputLength -= inputStart;
+      this.analysisPosition -= inputStart;
+      this.continuation -= inputStart;
+    }
+
+    const stretchedStart = Math.floor(this.readPosition);
+
+    if (stretchedStart >= COMPACT_THRESHOLD) {
+      const end = this.finalized + this.synthesisHop;
+      for (const buffer of this.stretched) {
+        buffer.copyWithin(0, stretchedStart, end);
+      }
+      this.finalized -= stretchedStart;
+      this.readPosition -= stretchedStart;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import pitchCorrectionUrl from "../workers/pitchCorrection.worklet.ts?worker&url";
+
+import {
+  PITCH_CORRECTION_DISPOSE,
+  PITCH_CORRECTION_PROCESSOR,
+  type PitchCorrectionOptions,
+} from "./pitchCorrection";
+
+/**
+ * Speeds offered for playback, as multiples of the normal rate
+ */
+export const PLAYBACK_SPEEDS = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Worklet modules are added once per audio context
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Whether playback speed can change without changing pitch
+ */
+export const isPlaybackSpeedSupported = (): boolean =>
+  typeof AudioWorkletNode !== "undefined";
+
+/**
+ * Add the pitch correction worklet to a context, once
+ * Must finish before createPitchCorrection is called on that context; a load
+ * that failed is tried again on the next call
+ */
+export const loadPitchCorrection = (ctx: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(ctx);
+
+  if (!loading) {
+    loading = ctx.audioWorklet.addModule(pitchCorrectionUrl);
+    loadedContexts.set(ctx, loading);
+    loading.catch(() => loadedContexts.delete(ctx));
+  }
+
+  return loading;
+};
+
+/**
+ * Create a node restoring the natural pitch of sources played at `speed`
+ * @returns Stereo AudioWorkletNode; dispose of it with disposePitchCorrection
+ */
+export const createPitchCorrection = (
+  ctx: BaseAudioContext,
+  speed: number,
+): AudioWorkletNode =>
+  new AudioWorkletNode(ctx, PITCH_CORRECTION_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 2,
+    channelCountMode: "explicit",
+    processorOptions: { speed } satisfies PitchCorrectionOptions,
+  });
+
+/**
+ * Disconnect a pitch correction node and stop its processing
+ */
+export const disposePitchCorrection = (node: AudioWorkletNode) => {
+  node.disconnect();
+  node.port.postMessage(PITCH_CORRECTION_DISPOSE);
+};
@@ -0,0 +1,284 @@
+import { MANIFEST_PATH } from "./manifest";
+import { OpfsStorage } from "./storage";
+
+/**
+ * Details of a stitching project, stored as project.json in its directory
+ */
+export interface ProjectInfo {
+  id: string; // Directory name under PROJECTS_DIR
+  name: string;
+  createdAt: number; // Unix timestamp
+}
+
+export interface ProjectChangeDetail {
+  projectId: string;
+}
+
+/**
+ * Every project is a directory in here holding its manifest and clip folders
+ */
+export const PROJECTS_DIR = "projects";
+
+/**
+ * Project archives are written here, outside every project, while they're
+ * exported; they're kept until the next session so their downloads can finish
+ */
+export const EXPORTS_DIR = "exports";
+
+export const PROJECT_CHANGE_EVENT = "project-change";
+
+const PROJECT_INFO_FILE = "project.json";
+
+// localStorage key remembering the last opened project
+const ACTIVE_PROJECT_KEY = "audio-stitching:active-project";
+
+const DEFAULT_PROJECT_NAME = "Untitled project";
+
+let activeProjectId: string | null = null;
+
+/**
+ * ID of the project clips are currently read from and written to
+ */
+export const getActiveProjectId = (): string => {
+  if (!activeProjectId) throw new Error("No project is open");
+  return activeProjectId;
+};
+
+/**
+ * Resolve a path inside a project directory
+ * @param path - Path relative to the project (e.g. "clip-…/metadata.json")
+ * @param projectId - Project to resolve against, defaults to the active one
+ */
+export const getProjectPath = (
+  path: string = "",
+  projectId: string = getActiveProjectId(),
+): string => [PROJECTS_DIR, projectId, path].filter(Boolean).join("/");
+
+const createProjectId = (): string => `project-${crypto.randomUUID()}`;
+
+const saveProjectInfo = (project: ProjectInfo): Promise<void> =>
+  OpfsStorage.saveFile(
+    getProjectPath(PROJECT_INFO_FILE, project.id),
+    JSON.stringify(project, null, 2),
+  );
+
+const readProjectInfo = async (projectId: string): Promise<ProjectInfo> => {
+  const buffer = await OpfsStorage.readFile(
+    getProjectPath(PROJECT_INFO_FILE, projectId),
+  );
+  const text = new TextDecoder().decode(buffer);
+  return { ...(JSON.parse(text) as ProjectInfo), id: projectId };
+};
+
+/**
+ * Recursively copy a directory, file by file
+ */
+const copyDirectory = async (from: string, to: string): Promise<void> => {
+  // Stream every file across so large recordings are never held in memory
+  for (const file of await OpfsStorage.listFiles(from)) {
+    await OpfsStorage.saveFileStream(
+      `${to}/${file}`,
+      await OpfsStorage.readFileStream(`${from}/${file}`),
+    );
+  }
+
+  for (const directory of await OpfsStorage.listDirectories(from)) {
+    await copyDirectory(`${from}/${directory}`, `${to}/${directory}`);
+  }
+};
+
+/**
+ * Whether a project still exists, e.g. after work was queued for it
+ */
+export const projectExists = async (projectId: string): Promise<boolean> => {
+  const root = await OpfsStorage.listDirectories();
+  if (!root.includes(PROJECTS_DIR)) return false;
+
+  return (await OpfsStorage.listDirectories(PROJECTS_DIR)).includes(projectId);
+};
+
+/**
+ * List every project, oldest first
+ */
+export const listProjects = async (): Promise<ProjectInfo[]> => {
+  const root = await OpfsStorage.listDirectories();
+  if (!root.includes(PROJECTS_DIR)) return [];
+
+  const directories = await OpfsStorage.listDirectories(PROJECTS_DIR);
+  const projects = await Promise.all(
+    directories.map(async (projectId) => {
+      try {
+        return await readProjectInfo(projectId);
+      } catch (err) {
+        console.warn(`Failed to read project ${projectId}:`, err);
+        return null;
+      }
+    }),
+  );
+
+  return projects
+    .filter((project) => project !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Create an empty project
+ * @param name - Display name
+ */
+export const createProject = async (
+  name: string = DEFAULT_PROJECT_NAME,
+): Promise<ProjectInfo> => {
+  const project = { id: createProjectId(), name, createdAt: Date.now() };
+  await saveProjectInfo(project);
+  return project;
+};
+
+/**
+ * Change the display name of a project
+ */
+export const renameProject = async (
+  projectId: string,
+  name: string,
+): Promise<ProjectInfo> => {
+  const project = { ...(await readProjectInfo(projectId)), name };
+  await saveProjectInfo(project);
+  return project;
+};
+
+/**
+ * Copy a project with all of its clips, order and settings
+ * @param projectId - Project to copy
+ * @param name - Display name of the copy
+ */
+export const duplicateProject = async (
+  projectId: string,
+  name: string,
+): Promise<ProjectInfo> => {
+  const project = { id: createProjectId(), name, createdAt: Date.now() };
+
+  await copyDirectory(
+    getProjectPath("", projectId),
+    getProjectPath("", project.id),
+  );
+  await saveProjectInfo(project);
+
+  return project;
+};
+
+/**
+ * Switch the project clips are read from and written to
+ * Listeners of PROJECT_CHANGE_EVENT reload their data
+ */
+export const setActiveProject = (projectId: string) => {
+  if (projectId === activeProjectId) return;
+
+  activeProjectId = projectId;
+  localStorage.setItem(ACTIVE_PROJECT_KEY, projectId);
+
+  window.dispatchEvent(
+    new CustomEvent<ProjectChangeDetail>(PROJECT_CHANGE_EVENT, {
+      detail: { projectId },
+    }),
+  );
+};
+
+/**
+ * Delete a project and everything in it
+ * Deleting the active project opens another one, creating it if none is left
+ */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  await OpfsStorage.deleteDirectory(getProjectPath("", projectId));
+
+  if (projectId !== activeProjectId) return;
+
+  const [next] = await listProjects();
+  setActiveProject((next ?? (await createProject())).id);
+};
+
+// Left at the OPFS root while migrateRootToProject runs, naming the project
+// it moves into, so an interrupted migration resumes into the same project
+const ROOT_MIGRATION_MARKER = "project-migration.json";
+
+/**
+ * Move clips stored at the OPFS root by older versions into a project
+ */
+const migrateRootToProject = async () => {
+  const directories = (await OpfsStorage.listDirectories()).filter(
+    (name) => name !== PROJECTS_DIR && name !== EXPORTS_DIR,
+  );
+  const { exists: hasManifest } =
+    await OpfsStorage.getFileDetails(MANIFEST_PATH);
+  const { exists: hasMarker } = await OpfsStorage.getFileDetails(
+    ROOT_MIGRATION_MARKER,
+  );
+
+  if (directories.length === 0 && !hasManifest && !hasMarker) return;
+
+  let project: ProjectInfo;
+  if (hasMarker) {
+    const buffer = await OpfsStorage.readFile(ROOT_MIGRATION_MARKER);
+    project = JSON.parse(new TextDecoder().decode(buffer)) as ProjectInfo;
+  } else {
+    project = {
+      id: createProjectId(),
+      name: "My project",
+      createdAt: Date.now(),
+    };
+    await OpfsStorage.saveFile(
+      ROOT_MIGRATION_MARKER,
+      JSON.stringify(project, null, 2),
+    );
+  }
+  await saveProjectInfo(project);
+
+  // Folders already moved by an interrupted run are no longer at the root
+  for (const directory of directories) {
+    await OpfsStorage.moveDirectory(
+      directory,
+      getProjectPath(directory, project.id),
+    );
+  }
+
+  if (hasManifest) {
+    const manifest = await OpfsStorage.readFile(MANIFEST_PATH);
+    await OpfsStorage.saveFile(
+      getProjectPath(MANIFEST_PATH, project.id),
+      manifest,
+    );
+    await OpfsStorage.deleteFile(MANIFEST_PATH);
+  }
+
+  await OpfsStorage.deleteFile(ROOT_MIGRATION_MARKER);
+};
+
+let opening: Promise<string> | null = null;
+
+/**
+ * Open the last used project, migrating older storage and creating a first
+ * project when needed
+ * Runs once per session; later calls wait for the first one to finish
+ * @returns ID of the active project
+ */
+export const openProjects = (): Promise<string> => {
+  opening ??= (async () => {
+    await migrateRootToProject();
+
+    if ((await OpfsStorage.listDirectories()).includes(EXPORTS_DIR)) {
+      await OpfsStorage.deleteDirectory(EXPORTS_DIR);
+    }
+
+    const projects = await listProjects();
+    const stored = localStorage.getItem(ACTIVE_PROJECT_KEY);
+    const project =
+      projects.find(({ id }) => id === stored) ??
+      projects[0] ??
+      (await createProject());
+
+    activeProjectId = project.id;
+    localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+
+    return project.id;
+  })();
+
+  return opening;
+};
@@ -0,0 +1,112 @@
+import { getProjectPath, listProjects, type ProjectInfo } from "./projects";
+import { OpfsStorage } from "./storage";
+
+/**
+ * Space the browser grants this origin, from navigator.storage
+ */
+export interface StorageEstimate {
+  usage: number; // Bytes in use
+  quota: number; // Bytes the origin may use
+  available: number; // Bytes left
+  persisted: boolean; // Whether the browser keeps the data under storage pressure
+}
+
+export interface ProjectUsage {
+  project: ProjectInfo;
+  size: number; // Bytes, including the project's trash
+}
+
+/**
+ * Share of the quota in use from which storage counts as running low
+ */
+export const LOW_STORAGE_RATIO = 0.9;
+
+/**
+ * Read how much space is used and left
+ * @returns null where the browser doesn't report it
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = (await navigator.storage.persisted?.()) ?? false;
+
+  return {
+    usage,
+    quota,
+    available: Math.max(0, quota - usage),
+    persisted,
+  };
+};
+
+/**
+ * Ask the browser not to evict the library when space runs low
+ * Browsers may grant or deny this without asking the user
+ * @returns Whether storage is persistent now
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+
+  return await navigator.storage.persist();
+};
+
+/**
+ * Add up the sizes of every file in a directory and its subdirectories
+ */
+export const getDirectorySize = async (path: string): Promise<number> => {
+  let size = 0;
+
+  for (const file of await OpfsStorage.listFiles(path)) {
+    size += (await OpfsStorage.getFileDetails(`${path}/${file}`)).size;
+  }
+
+  for (const directory of await OpfsStorage.listDirectories(path)) {
+    size += await getDirectorySize(`${path}/${directory}`);
+  }
+
+  return size;
+};
+
+/**
+ * Measure the space every project takes, largest first
+ */
+export const listProjectUsage = async (): Promise<ProjectUsage[]> => {
+  const usage = await Promise.all(
+    (await listProjects()).map(async (project) => ({
+      project,
+      size: await getDirectorySize(getProjectPath("", project.id)),
+    })),
+  );
+
+  return usage.sort((a, b) => b.size - a.size);
+};
+
+/**
+ * How many bytes short the space left is of storing files
+ * @returns 0 when they fit, or when the browser doesn't report its quota
+ */
+export const getQuotaShortfall = async (bytes: number): Promise<number> => {
+  const estimate = await getStorageEstimate();
+  if (!estimate) return 0;
+
+  return Math.max(0, bytes - estimate.available);
+};
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/**
+ * Format a byte count for display (e.g. "12.5 MB")
+ */
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  const digits = unit === 0 || value >= 100 ? 0 : 1;
+  return `${value.toFixed(digits)} ${BYTE_UNITS[unit]}`;
+};
@@ -0,0 +1,89 @@
+import {
+  getSequenceDuration,
+  scheduleSequence,
+  type SequenceClip,
+} from "./sequence";
+
+export interface RenderSequenceOptions {
+  sampleRate?: number;
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+// How many times the offline render pauses to report progress
+const PROGRESS_STEPS = 50;
+
+/**
+ * Decode audio files at the given sample rate without a realtime context
+ * @param files - Encoded audio files in playback order
+ * @param sampleRate - Sample rate every clip is resampled to
+ */
+export const decodeOffline = async (
+  files: ArrayBuffer[],
+  sampleRate: number,
+): Promise<AudioBuffer[]> => {
+  const decodeCtx = new OfflineAudioContext(1, 1, sampleRate);
+
+  // decodeAudioData detaches the buffer, so decode a copy to keep the original usable
+  return await Promise.all(
+    files.map((file) => decodeCtx.decodeAudioData(file.slice(0))),
+  );
+};
+
+/**
+ * Render decoded clips into a single AudioBuffer using an OfflineAudioContext
+ * The render pauses periodically to report progress and honour cancellation
+ * @param clips - Decoded clips in playback order
+ * @param options - Sample rate, progress callback and abort signal
+ * @returns The stitched sequence as one buffer
+ */
+export const renderSequence = async (
+  clips: SequenceClip[],
+  { sampleRate = 44100, onProgress, signal }: RenderSequenceOptions = {},
+): Promise<AudioBuffer> => {
+  signal?.throwIfAborted();
+
+  const duration = getSequenceDuration(clips);
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const numberOfChannels = Math.max(
+    1,
+    ...clips.map(({ buffer }) => buffer.numberOfChannels),
+  );
+
+  const ctx = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+  scheduleSequence(ctx, clips, ctx.destination, 0);
+
+  return await new Promise<AudioBuffer>((resolve, reject) => {
+    // Suspending at fixed points is the only way to observe offline progress
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      const time = (duration * step) / PROGRESS_STEPS;
+      const quantum = 128 / sampleRate;
+      const suspendAt = Math.floor(time / quantum) * quantum;
+      if (suspendAt <= 0) continue;
+
+      ctx
+        .suspend(suspendAt)
+        .then(() => {
+          if (signal?.aborted) {
+            // Leave the context suspended; it is garbage-collected with its promise
+            reject(signal.reason);
+            return;
+          }
+
+          onProgress?.(step / PROGRESS_STEPS);
+          return ctx.resume();
+        })
+        .catch(() => {
+          // Duplicate suspend points (very short sequences) are rejected; ignore them
+        });
+    }
+
+    ctx
+      .startRendering()
+      .then((rendered) => {
+        onProgress?.(1);
+        resolve(rendered);
+      })
+      .catch(reject);
+  });
+};
@@ -0,0 +1,498 @@
+import type { AudioMetadata } from "./audio";
+import { ensureClipLoudness, ensureClipSilence } from "./analysis";
+import { getDecodedClip } from "./decodeCache";
+import { connectClipEffects, type ClipEffects } from "./effects";
+import { dbToGain, getNormalizationGain } from "./loudness";
+import {
+  getTransition,
+  type ProjectSettings,
+  type SequenceEntry,
+} from "./manifest";
+
+export type CrossfadeCurve = "linear" | "equal-power" | "exponential";
+
+/**
+ * Crossfade applied between a clip and the one after it
+ */
+export interface Crossfade {
+  duration: number; // Overlap in seconds
+  curve: CrossfadeCurve;
+}
+
+/**
+ * A decoded clip ready to be scheduled
+ */
+export interface SequenceClip {
+  buffer: AudioBuffer;
+  crossfade?: Crossfade; // Transition into the next clip
+  trimStart?: number; // In point in seconds
+  trimEnd?: number; // Out point in seconds
+  gain?: number; // Linear level multiplier, applied before fades
+  gapAfter?: number; // Silence before the next clip when there is no crossfade, in sec
+  effects?: ClipEffects; // Processing applied before the gain
+}
+
+/**
+ * A stored clip ready to be read back for stitching
+ */
+export interface ClipFile {
+  metadata: AudioMetadata;
+  read: () => Promise<ArrayBuffer>; // Reads the encoded audio file
+  crossfade?: Crossfade;
+}
+
+/**
+ * The parts of a clip that decide where it sits on the timeline
+ * Only the buffer's duration is needed, so stored metadata can stand in for
+ * a decoded buffer
+ */
+type ClipTiming = Pick<
+  SequenceClip,
+  "crossfade" | "trimStart" | "trimEnd" | "gapAfter"
+> & {
+  buffer: Pick<AudioBuffer, "duration">;
+};
+
+/**
+ * Where a clip sits on the stitched timeline
+ */
+export interface ClipLayout {
+  start: number; // Offset from the start of the sequence in seconds
+  offset: number; // Position in the buffer where playback begins
+  duration: number; // Audible length after trimming
+  fadeIn?: Crossfade;
+  fadeOut?: Crossfade;
+}
+
+// Number of points used to describe a fade curve
+const CURVE_RESOLUTION = 256;
+
+const CURVE_SHAPES: Record<CrossfadeCurve, (x: number) => number> = {
+  linear: (x) => x,
+  "equal-power": (x) => Math.sin((x * Math.PI) / 2),
+  exponential: (x) => (Math.exp(4 * x) - 1) / (Math.exp(4) - 1),
+};
+
+/**
+ * Gain values for a fade, from silent to full for a fade-in and the mirror
+ * image for a fade-out
+ */
+const getFadeCurve = (curve: CrossfadeCurve, direction: "in" | "out") => {
+  const shape = CURVE_SHAPES[curve];
+
+  return Float32Array.from({ length: CURVE_RESOLUTION }, (_, i) => {
+    const x = i / (CURVE_RESOLUTION - 1);
+    return shape(direction === "in" ? x : 1 - x);
+  });
+};
+
+/**
+ * In and out points a clip plays between: the user's trim, narrowed to the
+ * detected sound when silence trimming is on
+ */
+const getPlaybackTrim = (
+  metadata: AudioMetadata,
+  settings?: ProjectSettings,
+): Pick<SequenceClip, "trimStart" | "trimEnd"> => {
+  const { trimStart, trimEnd, silence } = metadata;
+  if (!settings?.trimSilence || !silence) return { trimStart, trimEnd };
+
+  return {
+    trimStart: Math.max(trimStart ?? 0, silence.start),
+    trimEnd: Math.min(trimEnd ?? Infinity, silence.end),
+  };
+};
+
+/**
+ * Build a schedulable clip from a decoded buffer and its stored settings
+ * @param buffer - Decoded audio of the clip
+ * @param metadata - Clip metadata holding per-clip playback settings
+ * @param crossfade - Transition into the next clip
+ * @param settings - Project settings affecting every clip
+ */
+export const createSequenceClip = (
+  buffer: AudioBuffer,
+  metadata: AudioMetadata,
+  crossfade?: Crossfade,
+  settings?: ProjectSettings,
+): SequenceClip => {
+  const normalizationDb = settings?.normalize
+    ? getNormalizationGain(metadata.loudness, settings.targetLoudness)
+    : 0;
+
+  return {
+    buffer,
+    crossfade,
+    ...getPlaybackTrim(metadata, settings),
+    gain: dbToGain((metadata.gainDb ?? 0) + normalizationDb),
+    effects: metadata.effects,
+  };
+};
+
+/**
+ * Build a silent clip standing in for a spacer
+ * @param duration - Length of the pause in sec
+ * @param sampleRate - Sample rate of the context the clip will play in
+ */
+export const createSpacerClip = (
+  duration: number,
+  sampleRate: number,
+): SequenceClip => ({
+  buffer: new AudioBuffer({
+    length: Math.max(1, Math.round(duration * sampleRate)),
+    numberOfChannels: 1,
+    sampleRate,
+  }),
+});
+
+/**
+ * How an item joins the one after it: crossfades and the global gap only
+ * apply between two clips, as a spacer already sets the pause around it
+ */
+const getJoin = <T>(
+  next: SequenceEntry<T> | undefined,
+  crossfade: Crossfade | undefined,
+  settings?: ProjectSettings,
+): Pick<SequenceClip, "crossfade" | "gapAfter"> =>
+  next?.type === "clip" ? { crossfade, gapAfter: settings?.gap } : {};
+
+/**
+ * Decode and analyse every clip of a sequence and turn spacers into silence
+ * Decoded audio is cached, so only clips added or changed since the last call
+ * are read and decoded; loudness and silence are cached in clip metadata
+ * @param entries - Clips and spacers in playback order
+ * @param decode - Decodes an audio file at `sampleRate`
+ * @param sampleRate - Sample rate of the context the sequence will play in
+ * @param settings - Project settings affecting every clip
+ * @param signal - Stops the work between the steps of each clip
+ */
+export const prepareSequence = (
+  entries: SequenceEntry<ClipFile>[],
+  decode: (data: ArrayBuffer) => Promise<AudioBuffer>,
+  sampleRate: number,
+  settings: ProjectSettings,
+  signal?: AbortSignal,
+): Promise<SequenceClip[]> =>
+  Promise.all(
+    entries.map(async (entry, i) => {
+      signal?.throwIfAborted();
+
+      if (entry.type === "spacer") {
+        return createSpacerClip(entry.duration, sampleRate);
+      }
+
+      const { metadata, read, crossfade } = entry.clip;
+      const decoded = await getDecodedClip(metadata, sampleRate, async () => {
+        const data = await read();
+        signal?.throwIfAborted();
+        return decode(data);
+      });
+
+      let analysed = metadata;
+      if (settings.normalize) {
+        signal?.throwIfAborted();
+        analysed = await ensureClipLoudness(analysed, decoded);
+      }
+      if (settings.trimSilence) {
+        signal?.throwIfAborted();
+        analysed = await ensureClipSilence(
+          analysed,
+          decoded,
+          settings.silenceThreshold,
+        );
+      }
+
+      const join = getJoin(entries[i + 1], crossfade, settings);
+      return {
+        ...createSequenceClip(decoded, analysed, join.crossfade, settings),
+        gapAfter: join.gapAfter,
+      };
+    }),
+  );
+
+/**
+ * Resolve the part of the buffer a clip plays, clamping trim points to the buffer
+ */
+const getClipBounds = ({ buffer, trimStart = 0, trimEnd }: ClipTiming) => {
+  const offset = Math.min(Math.max(0, trimStart), buffer.duration);
+  const end = Math.min(Math.max(offset, trimEnd ?? Infinity), buffer.duration);
+
+  return { offset, duration: end - offset };
+};
+
+/**
+ * Limit a crossfade so it never covers more than half of either clip,
+ * keeping a clip's fade-in and fade-out from overlapping
+ */
+const clampCrossfade = (
+  crossfade: Crossfade | undefined,
+  currentDuration: number,
+  nextDuration: number,
+): Crossfade | undefined => {
+  if (!crossfade) return undefined;
+
+  const duration = Math.min(
+    crossfade.duration,
+    currentDuration / 2,
+    nextDuration / 2,
+  );
+
+  return duration > 0 ? { ...crossfade, duration } : undefined;
+};
+
+/**
+ * Compute the start time and fades of every clip, accounting for crossfade overlap
+ * @param clips - Decoded clips in playback order
+ */
+export const getSequenceLayout = (clips: ClipTiming[]): ClipLayout[] => {
+  const bounds = clips.map(getClipBounds);
+  let start = 0;
+
+  return clips.map((clip, i) => {
+    const prev = clips[i - 1];
+    const next = clips[i + 1];
+    const { offset, duration } = bounds[i];
+
+    const layout: ClipLayout = {
+      start,
+      offset,
+      duration,
+      fadeIn:
+        prev &&
+        clampCrossfade(prev.crossfade, bounds[i - 1].duration, duration),
+      fadeOut:
+        next &&
+        clampCrossfade(clip.crossfade, duration, bounds[i + 1].duration),
+    };
+
+    // A crossfade overlaps the next clip; a hard cut may leave a gap instead
+    start += layout.fadeOut
+      ? layout.duration - layout.fadeOut.duration
+      : layout.duration + Math.max(0, clip.gapAfter ?? 0);
+    return layout;
+  });
+};
+
+/**
+ * Total length of a stitched sequence in seconds
+ * @param clips - Decoded clips in playback order
+ */
+export const getSequenceDuration = (clips: ClipTiming[]): number => {
+  const last = getSequenceLayout(clips).at(-1);
+  return last ? last.start + last.duration : 0;
+};
+
+/**
+ * Find the clip playing at a point in the sequence
+ * During a crossfade the incoming clip counts as playing
+ * @param layout - Layout from getSequenceLayout
+ * @param time - Position in the sequence in seconds
+ * @returns Index of the clip, or -1 for an empty sequence
+ */
+export const getClipIndexAt = (layout: ClipLayout[], time: number): number =>
+  layout.reduce(
+    (index, { start }, i) => (i === 0 || start <= time ? i : index),
+    -1,
+  );
+
+/**
+ * Describe a clip's timing from its metadata alone
+ * Clips whose duration hasn't been recorded yet count as empty
+ */
+const getMetadataTiming = (
+  metadata: AudioMetadata,
+  crossfade?: Crossfade,
+  settings?: ProjectSettings,
+): ClipTiming => ({
+  buffer: { duration: metadata.duration ?? 0 },
+  crossfade,
+  ...getPlaybackTrim(metadata, settings),
+});
+
+/**
+ * Audible length of a clip after trimming, without decoding it
+ * @param metadata - Clip metadata
+ * @param settings - Project settings affecting every clip
+ */
+export const getClipDuration = (
+  metadata: AudioMetadata,
+  settings?: ProjectSettings,
+): number =>
+  getClipBounds(getMetadataTiming(metadata, undefined, settings)).duration;
+
+/**
+ * Total length of the stitched sequence, without decoding any clip
+ * @param entries - Clip metadata and spacers in playback order
+ * @param transitions - Crossfades keyed by getTransitionKey
+ * @param settings - Project settings affecting every clip
+ */
+export const getEstimatedSequenceDuration = (
+  entries: SequenceEntry<AudioMetadata>[],
+  transitions: Record<string, Crossfade>,
+  settings?: ProjectSettings,
+): number =>
+  getSequenceDuration(
+    entries.map((entry, i) => {
+      if (entry.type === "spacer") {
+        return { buffer: { duration: entry.duration } };
+      }
+
+      const next = entries[i + 1];
+      const join = getJoin(
+        next,
+        getTransition(transitions, entry.id, next?.id),
+        settings,
+      );
+      return {
+        ...getMetadataTiming(entry.clip, join.crossfade, settings),
+        gapAfter: join.gapAfter,
+      };
+    }),
+  );
+
+/**
+ * Summarize everything that decides how a sequence sounds, so a loaded
+ * sequence can tell whether it's out of date
+ * Names, covers and cached analysis are left out, as writing them doesn't
+ * change what plays
+ * @param entries - Clip metadata and spacers in playback order
+ * @param transitions - Crossfades between items
+ * @param settings - Project settings affecting every clip
+ */
+export const getSequenceSignature = (
+  entries: SequenceEntry<AudioMetadata>[],
+  transitions: Record<string, Crossfade>,
+  settings: ProjectSettings,
+): string =>
+  JSON.stringify({
+    entries: entries.map((entry) =>
+      entry.type === "spacer"
+        ? entry
+        : {
+            id: entry.id,
+            fileName: entry.clip.fileName,
+            trimStart: entry.clip.trimStart,
+            trimEnd: entry.clip.trimEnd,
+            gainDb: entry.clip.gainDb,
+            effects: entry.clip.effects,
+          },
+    ),
+    transitions,
+    settings,
+  });
+
+/**
+ * Automate a fade, joining it part-way through if it has already begun
+ * @param param - Gain parameter to automate
+ * @param curve - Full fade curve
+ * @param startTime - Context time at which the fade starts
+ * @param duration - Length of the fade in seconds
+ * @param now - Earliest time automation can be scheduled at
+ * @returns Context time the scheduled curve ends at
+ */
+const scheduleFade = (
+  param: AudioParam,
+  curve: Float32Array,
+  startTime: number,
+  duration: number,
+  now: number,
+): number => {
+  const elapsed = now - startTime;
+
+  if (elapsed <= 0) {
+    param.setValueCurveAtTime(curve, startTime, duration);
+    return startTime + duration;
+  }
+
+  // A finished fade-in leaves the gain at its default of 1
+  if (elapsed >= duration) return startTime + duration;
+
+  const from = Math.floor((elapsed / duration) * (curve.length - 1));
+  param.setValueCurveAtTime(curve.slice(from), now, duration - elapsed);
+  return now + (duration - elapsed);
+};
+
+/**
+ * Schedule decoded clips on any audio context
+ * Shared by live playback and offline rendering so both produce the same output
+ * @param ctx - Realtime or offline audio context
+ * @param clips - Decoded clips in playback order
+ * @param destination - Node every clip connects to
+ * @param when - Context time at which playback starts
+ * @param from - Position in the sequence, in seconds, to start playing from
+ * @param rate - Playback rate; sources change pitch with it, see PitchCorrector
+ * @returns The scheduled source nodes, in playback order (clips that end
+ * before `from` are skipped)
+ */
+export const scheduleSequence = (
+  ctx: BaseAudioContext,
+  clips: SequenceClip[],
+  destination: AudioNode,
+  when: number,
+  from: number = 0,
+  rate: number = 1,
+): AudioBufferSourceNode[] => {
+  const layout = getSequenceLayout(clips);
+
+  // Context time at which a position in the sequence plays
+  const toContextTime = (position: number) => when + (position - from) / rate;
+
+  return clips.flatMap(({ buffer, gain = 1, effects }, i) => {
+    const { start, offset, duration, fadeIn, fadeOut } = layout[i];
+    const clipStart = toContextTime(start);
+    const clipEnd = toContextTime(start + duration);
+
+    if (clipEnd <= when) return [];
+
+    // Each clip gets its own gain stage so crossfades can be automated
+    const clipGain = ctx.createGain();
+    clipGain.connect(destination);
+
+    const fadeInEnd = fadeIn
+      ? scheduleFade(
+          clipGain.gain,
+          getFadeCurve(fadeIn.curve, "in"),
+          clipStart,
+          fadeIn.duration / rate,
+          when,
+        )
+      : clipStart;
+
+    // Fades of up to half a clip each can meet in the middle; rounding must
+    // not make them overlap, as overlapping curves can't be scheduled
+    const fadeOutStart = fadeOut
+      ? Math.max(clipEnd - fadeOut.duration / rate, fadeInEnd)
+      : clipEnd;
+
+    if (fadeOut && fadeOutStart < clipEnd) {
+      scheduleFade(
+        clipGain.gain,
+        getFadeCurve(fadeOut.curve, "out"),
+        fadeOutStart,
+        clipEnd - fadeOutStart,
+        when,
+      );
+    }
+
+    // Static level (user offset and normalization) sits before the fades
+    const levelGain = ctx.createGain();
+    levelGain.gain.value = gain;
+    levelGain.connect(clipGain);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    source.connect(connectClipEffects(ctx, effects, levelGain, rate));
+
+    // Trimming only changes what is played; the buffer itself is untouched.
+    // A clip already under way at `from` picks up part-way through.
+    const skipped = Math.max(0, from - start);
+    source.start(
+      toContextTime(start + skipped),
+      offset + skipped,
+      duration - skipped,
+    );
+
+    return [source];
+  });
+};
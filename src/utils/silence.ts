@@ -0,0 +1,83 @@
+import type { PcmAudio } from "./pcm";
+
+/**
+ * Silence found in a clip, cached in its metadata.json
+ */
+export interface SilenceAnalysis {
+  threshold: number; // dBFS the clip was analysed with
+  start: number; // First audible moment in seconds
+  end: number; // Last audible moment in seconds
+  gaps: Array<[number, number]>; // Long silences between start and end, in sec
+}
+
+// Length of the windows the signal is measured in, in sec
+const WINDOW_SECONDS = 0.02;
+
+// Audio kept around detected sound so soft attacks and tails aren't cut
+const PADDING_SECONDS = 0.05;
+
+// Internal silences at least this long are flagged, in sec
+export const LONG_SILENCE_SECONDS = 2;
+
+/**
+ * Find where sound starts and stops in a buffer, and any long silences in between
+ * @param buffer - Decoded audio
+ * @param threshold - Level in dBFS below which audio counts as silence
+ */
+export const detectSilence = (
+  buffer: PcmAudio,
+  threshold: number,
+): SilenceAnalysis => {
+  const { sampleRate, length, numberOfChannels, duration } = buffer;
+  const windowSize = Math.max(1, Math.round(WINDOW_SECONDS * sampleRate));
+  const windowCount = Math.ceil(length / windowSize);
+  const limit = 10 ** (threshold / 20);
+
+  // Mark every window whose peak on any channel reaches the threshold
+  const isSound = new Uint8Array(windowCount);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+
+    for (let i = 0; i < length; i++) {
+      if (Math.abs(data[i]) >= limit) {
+        const window = Math.floor(i / windowSize);
+        isSound[window] = 1;
+
+        // The rest of this window can't change the outcome
+        i = (window + 1) * windowSize - 1;
+      }
+    }
+  }
+
+  const first = isSound.indexOf(1);
+
+  // A silent clip is left alone rather than trimmed away entirely
+  if (first === -1) return { threshold, start: 0, end: duration, gaps: [] };
+
+  const last = isSound.lastIndexOf(1);
+  const toSeconds = (window: number) =>
+    Math.min((window * windowSize) / sampleRate, duration);
+
+  const gaps: Array<[number, number]> = [];
+  let gapStart = -1;
+
+  for (let window = first; window <= last; window++) {
+    if (!isSound[window]) {
+      if (gapStart === -1) gapStart = window;
+      continue;
+    }
+
+    if (gapStart !== -1) {
+      const gap: [number, number] = [toSeconds(gapStart), toSeconds(window)];
+      if (gap[1] - gap[0] >= LONG_SILENCE_SECONDS) gaps.push(gap);
+      gapStart = -1;
+    }
+  }
+
+  return {
+    threshold,
+    start: Math.max(0, toSeconds(first) - PADDING_SECONDS),
+    end: Math.min(duration, toSeconds(last + 1) + PADDING_SECONDS),
+    gaps,
+  };
+};
@@ -1,3 +1,9 @@
+import type {
+  StorageTaskType,
+  WorkerResponse,
+  WorkerTasks,
+} from "./workerProtocol";
+
 // Custom event for OPFS changes
 export const OPFS_CHANGE_EVENT = "opfs-change";
 
@@ -6,17 +12,75 @@ export interface OpfsChangeDetail {
   path: string;
 }
 
+/**
+ * Writes a file chunk by chunk, see OpfsStorage.openFileWriter
+ */
+export interface OpfsFileWriter {
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  close(): Promise<void>; // Finishes the file
+  abort(): Promise<void>; // Discards the file
+}
+
+// The synchronous handle only exists in workers, so the DOM typings lack it
+interface SyncAccessHandle {
+  read(buffer: ArrayBufferView, options?: { at?: number }): number;
+  write(buffer: ArrayBufferView, options?: { at?: number }): number;
+  truncate(size: number): void;
+  getSize(): number;
+  flush(): void;
+  close(): void;
+}
+
+type SyncFileHandle = FileSystemFileHandle & {
+  createSyncAccessHandle(): Promise<SyncAccessHandle>;
+  move(newName: string): Promise<void>;
+};
+
+// Moving entries is missing from the DOM typings as well
+type MovableDirectoryHandle = FileSystemDirectoryHandle & {
+  move(destination: FileSystemDirectoryHandle, newName: string): Promise<void>;
+};
+
+// Appended to the name of a file while openFileWriter replaces it in a worker
+const TEMP_FILE_SUFFIX = ".tmp";
+
+// Bytes read per chunk by readFileStream
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Runs a storage operation in another context, e.g. the audio worker
+ */
+export type OpfsRemote = <T extends StorageTaskType>(
+  type: T,
+  request: WorkerTasks[T]["request"],
+) => Promise<WorkerTasks[T]["result"]>;
+
 export class OpfsStorage {
   private static rootDir: FileSystemDirectoryHandle | null = null;
   private static context: "worker" | "window" | "unknown" = "unknown";
   private static initPromise: Promise<void> | null = null;
+  private static remote: OpfsRemote | null = null;
+
+  /**
+   * Hand every operation to another context, which then owns OPFS access
+   * and reports its changes back to the window
+   * @param remote - Runs an operation elsewhere, or null to work locally again
+   */
+  static setRemote(remote: OpfsRemote | null): void {
+    this.remote = remote;
+  }
 
   /**
    * Emit a custom event when OPFS changes
+   * A worker has no window to dispatch on, so it posts the change to the
+   * page that started it instead
    */
   private static emitChange(detail: OpfsChangeDetail): void {
     if (typeof window !== "undefined") {
       window.dispatchEvent(new CustomEvent(OPFS_CHANGE_EVENT, { detail }));
+    } else if (this._getExecutionContext() === "worker") {
+      const message: WorkerResponse = { kind: "change", detail };
+      self.postMessage(message);
     }
   }
 
@@ -68,6 +132,8 @@ export class OpfsStorage {
     path: string,
     data: string | ArrayBuffer | Blob | ArrayBufferView,
   ): Promise<void> {
+    if (this.remote) return await this.remote("save-file", { path, data });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -76,6 +142,13 @@ export class OpfsStorage {
       create: true,
     });
 
+    // Write blobs (e.g. uploaded files) piece by piece rather than holding
+    // the whole file in memory
+    if (this.context === "worker" && data instanceof Blob) {
+      await this.saveFileStream(path, data.stream());
+      return;
+    }
+
     if (this.context === "worker") {
       // Use synchronous API in worker for better performance
       const syncHandle = await (fileHandle as any).createSyncAccessHandle();
@@ -121,6 +194,8 @@ export class OpfsStorage {
    * @returns ArrayBuffer containing the file data
    */
   static async readFile(path: string): Promise<ArrayBuffer> {
+    if (this.remote) return await this.remote("read-file", { path });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -145,6 +220,203 @@ export class OpfsStorage {
     }
   }
 
+  /**
+   * Get a file from OPFS as a File, read from disk only as it's used, e.g. to
+   * hand a large file to a download without loading it into memory
+   * Works in both window and worker contexts
+   * @param path - File path
+   */
+  static async getFile(path: string): Promise<File> {
+    if (this.remote) return await this.remote("get-file", { path });
+
+    await this._ensureInit();
+    if (!this.rootDir) throw new Error("OPFS not initialized");
+
+    const { dirHandle, fileName } = await this._ensureDirectory(path, false);
+    const fileHandle = await dirHandle.getFileHandle(fileName);
+    return await fileHandle.getFile();
+  }
+
+  /**
+   * Read part of a file from OPFS
+   * Works in both window and worker contexts
+   * @param path - File path
+   * @param start - Byte offset to start reading at
+   * @param end - Byte offset to stop reading before, defaults to the end of the file
+   * @returns ArrayBuffer holding the bytes in range (shorter past the end of the file)
+   */
+  static async readFileRange(
+    path: string,
+    start: number,
+    end?: number,
+  ): Promise<ArrayBuffer> {
+    if (this.remote) {
+      return await this.remote("read-file-range", { path, start, end });
+    }
+
+    await this._ensureInit();
+    if (!this.rootDir) throw new Error("OPFS not initialized");
+
+    const { dirHandle, fileName } = await this._ensureDirectory(path, false);
+    const fileHandle = await dirHandle.getFileHandle(fileName);
+
+    if (this.context === "worker") {
+      const syncHandle = await (
+        fileHandle as SyncFileHandle
+      ).createSyncAccessHandle();
+      try {
+        const size = syncHandle.getSize();
+        const from = Math.min(start, size);
+        const buffer = new Uint8Array(
+          Math.max(0, Math.min(end ?? size, size) - from),
+        );
+        syncHandle.read(buffer, { at: from });
+        return buffer.buffer;
+      } finally {
+        syncHandle.close();
+      }
+    } else {
+      const file = await fileHandle.getFile();
+      return await file.slice(start, end).arrayBuffer();
+    }
+  }
+
+  /**
+   * Read a file from OPFS as a stream of chunks, so large files never have
+   * to fit in memory at once
+   * Works in both window and worker contexts
+   * @param path - File path
+   * @param chunkSize - Bytes read per chunk
+   */
+  static async readFileStream(
+    path: string,
+    chunkSize: number = STREAM_CHUNK_SIZE,
+  ): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+    const { exists, size } = await this.getFileDetails(path);
+    if (!exists) {
+      throw new DOMException(`File not found: ${path}`, "NotFoundError");
+    }
+
+    let offset = 0;
+
+    return new ReadableStream({
+      pull: async (controller) => {
+        if (offset >= size) {
+          controller.close();
+          return;
+        }
+
+        const end = Math.min(offset + chunkSize, size);
+        const chunk = await this.readFileRange(path, offset, end);
+        offset = end;
+
+        controller.enqueue(new Uint8Array(chunk));
+      },
+    });
+  }
+
+  /**
+   * Open a file for writing chunk by chunk, replacing any previous content
+   * Works in both window and worker contexts
+   * @param path - File path
+   */
+  static async openFileWriter(path: string): Promise<OpfsFileWriter> {
+    if (this.remote) {
+      const remote = this.remote;
+      const writerId = await remote("open-writer", { path });
+
+      return {
+        write: (chunk) => remote("write-chunk", { writerId, chunk }),
+        close: () => remote("close-writer", { writerId }),
+        abort: () => remote("abort-writer", { writerId }),
+      };
+    }
+
+    await this._ensureInit();
+    if (!this.rootDir) throw new Error("OPFS not initialized");
+
+    const { dirHandle, fileName } = await this._ensureDirectory(path);
+
+    if (this.context === "worker") {
+      // Write next to the file and swap it in on close, so a failed or
+      // aborted write leaves the original in place
+      const tempName = `${fileName}${TEMP_FILE_SUFFIX}`;
+      const tempHandle = (await dirHandle.getFileHandle(tempName, {
+        create: true,
+      })) as SyncFileHandle;
+      const syncHandle = await tempHandle.createSyncAccessHandle();
+      syncHandle.truncate(0);
+      let offset = 0;
+
+      return {
+        write: async (chunk) => {
+          offset += syncHandle.write(chunk, { at: offset });
+        },
+        close: async () => {
+          try {
+            syncHandle.flush();
+          } finally {
+            syncHandle.close();
+          }
+          await tempHandle.move(fileName);
+          this.emitChange({ type: "file-added", path });
+        },
+        abort: async () => {
+          syncHandle.close();
+          await dirHandle.removeEntry(tempName);
+        },
+      };
+    } else {
+      // Writes go to a swap file that only replaces the original on close
+      const fileHandle = await dirHandle.getFileHandle(fileName, {
+        create: true,
+      });
+      const writable = await fileHandle.createWritable();
+
+      return {
+        write: (chunk) => writable.write(chunk),
+        close: async () => {
+          await writable.close();
+          this.emitChange({ type: "file-added", path });
+        },
+        abort: () => writable.abort(),
+      };
+    }
+  }
+
+  /**
+   * Create a stream that writes into a file in OPFS
+   * Works in both window and worker contexts
+   * @param path - File path
+   */
+  static createWriteStream(
+    path: string,
+  ): WritableStream<Uint8Array<ArrayBuffer>> {
+    let writer: OpfsFileWriter;
+
+    return new WritableStream({
+      start: async () => {
+        writer = await this.openFileWriter(path);
+      },
+      write: (chunk) => writer.write(chunk),
+      close: () => writer.close(),
+      abort: () => writer.abort(),
+    });
+  }
+
+  /**
+   * Save a stream to a file in OPFS, one chunk at a time
+   * Works in both window and worker contexts
+   * @param path - File path
+   * @param source - Stream of the file's bytes
+   */
+  static async saveFileStream(
+    path: string,
+    source: ReadableStream<Uint8Array<ArrayBuffer>>,
+  ): Promise<void> {
+    await source.pipeTo(this.createWriteStream(path));
+  }
+
   /**
    * Get file details (size and existence)
    * Works in both window and worker contexts
@@ -154,6 +426,8 @@ export class OpfsStorage {
   static async getFileDetails(
     path: string,
   ): Promise<{ exists: boolean; size: number }> {
+    if (this.remote) return await this.remote("get-file-details", { path });
+
     try {
       await this._ensureInit();
       if (!this.rootDir) return { exists: false, size: 0 };
@@ -185,6 +459,8 @@ export class OpfsStorage {
    * @returns Array of directory names
    */
   static async listDirectories(path: string = ""): Promise<string[]> {
+    if (this.remote) return await this.remote("list-directories", { path });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -215,6 +491,8 @@ export class OpfsStorage {
    * @returns Array of file names
    */
   static async listFiles(path: string = ""): Promise<string[]> {
+    if (this.remote) return await this.remote("list-files", { path });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -244,6 +522,8 @@ export class OpfsStorage {
    * @param path - File path to delete
    */
   static async deleteFile(path: string): Promise<void> {
+    if (this.remote) return await this.remote("delete-file", { path });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -260,6 +540,8 @@ export class OpfsStorage {
    * @param path - Directory path to delete
    */
   static async deleteDirectory(path: string): Promise<void> {
+    if (this.remote) return await this.remote("delete-directory", { path });
+
     await this._ensureInit();
     if (!this.rootDir) throw new Error("OPFS not initialized");
 
@@ -286,6 +568,35 @@ export class OpfsStorage {
     this.emitChange({ type: "directory-deleted", path });
   }
 
+  /**
+   * Move a directory and all its contents to another path in OPFS
+   * The entry itself is moved, so no file is copied and a failure leaves
+   * everything where it was
+   * Works in both window and worker contexts
+   * @param from - Directory path to move
+   * @param to - New directory path, which must not exist yet
+   */
+  static async moveDirectory(from: string, to: string): Promise<void> {
+    if (this.remote) return await this.remote("move-directory", { from, to });
+
+    await this._ensureInit();
+    if (!this.rootDir) throw new Error("OPFS not initialized");
+
+    const source = await this._ensureDirectory(from, false);
+    const dirHandle = await source.dirHandle.getDirectoryHandle(
+      source.fileName,
+    );
+    const target = await this._ensureDirectory(to);
+
+    await (dirHandle as MovableDirectoryHandle).move(
+      target.dirHandle,
+      target.fileName,
+    );
+
+    this.emitChange({ type: "directory-deleted", path: from });
+    this.emitChange({ type: "directory-added", path: to });
+  }
+
   // ==================== PRIVATE HELPER METHODS ====================
 
   private static async _ensureDirectory(
@@ -0,0 +1,61 @@
+/**
+ * Descriptive tags written into exported files where the format has room
+ */
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+}
+
+const VENDOR = "audio-stitching";
+
+// Vorbis comment field names, keyed by tag
+const VORBIS_FIELDS: Record<keyof AudioTags, string> = {
+  title: "TITLE",
+  artist: "ARTIST",
+};
+
+/**
+ * Tags that are set, trimmed, in a fixed order
+ */
+export const getTagEntries = (
+  tags: AudioTags = {},
+): Array<[keyof AudioTags, string]> =>
+  (Object.keys(VORBIS_FIELDS) as Array<keyof AudioTags>).flatMap((key) => {
+    const value = tags[key]?.trim();
+    return value ? [[key, value]] : [];
+  });
+
+/**
+ * Encode tags as a Vorbis comment, the tag format of FLAC and Ogg Opus
+ * @returns The comment without any container framing
+ */
+export const encodeVorbisComment = (
+  tags: AudioTags = {},
+): Uint8Array<ArrayBuffer> => {
+  const encoder = new TextEncoder();
+  const strings = [
+    VENDOR,
+    ...getTagEntries(tags).map(
+      ([key, value]) => `${VORBIS_FIELDS[key]}=${value}`,
+    ),
+  ].map((string) => encoder.encode(string));
+
+  // Every string is length-prefixed, and the vendor is followed by a count
+  const size = strings.reduce((size, string) => size + 4 + string.length, 4);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  strings.forEach((string, i) => {
+    view.setUint32(offset, string.length, true);
+    bytes.set(string, offset + 4);
+    offset += 4 + string.length;
+
+    if (i === 0) {
+      view.setUint32(offset, strings.length - 1, true);
+      offset += 4;
+    }
+  });
+
+  return bytes;
+};
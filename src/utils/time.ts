@@ -0,0 +1,19 @@
+/**
+ * Format time in seconds to M:SS format
+ * @param seconds - Time to format
+ * @param fractionDigits - Digits shown after the seconds (e.g. 1 for M:SS.s)
+ */
+export const formatTime = (seconds: number, fractionDigits = 0): string => {
+  // Round (or floor, for whole seconds) before splitting so 59.96 never shows as 0:60.0
+  const scale = 10 ** fractionDigits;
+  const total =
+    fractionDigits > 0
+      ? Math.round(seconds * scale) / scale
+      : Math.floor(seconds);
+
+  const mins = Math.floor(total / 60);
+  const secs = (total - mins * 60).toFixed(fractionDigits);
+  const width = fractionDigits > 0 ? 3 + fractionDigits : 2;
+
+  return `${mins}:${secs.padStart(width, "0")}`;
+};
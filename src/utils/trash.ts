@@ -0,0 +1,169 @@
+import type { AudioMetadata } from "./audio";
+import type { Crossfade } from "./sequence";
+import { evictDecodedClip } from "./decodeCache";
+import {
+  getItemTransitions,
+  readManifest,
+  removeFromManifest,
+  updateManifest,
+} from "./manifest";
+import { getProjectPath } from "./projects";
+import { OpfsStorage } from "./storage";
+
+/**
+ * Where trashed clips are kept in each project; the dot keeps it apart from
+ * clip folders and from folders named after files by older versions
+ */
+export const TRASH_DIR = ".trash";
+
+/**
+ * Trashed clips are deleted for good after this many days
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored next to the clip's own files while it's in the trash
+const TRASH_INFO_FILE = "trash.json";
+
+const METADATA_FILE = "metadata.json";
+
+/**
+ * What's needed to put a trashed clip back where it was
+ */
+export interface TrashInfo {
+  deletedAt: number; // Unix timestamp
+  index: number | null; // Position in the playback order, null if unordered
+  transitions: Record<string, Crossfade>; // Into and out of the clip
+}
+
+export interface TrashedClip extends TrashInfo {
+  folderName: string;
+  metadata: AudioMetadata;
+  expiresAt: number; // Unix timestamp of the automatic purge
+}
+
+const getTrashPath = (folderName: string = "") =>
+  getProjectPath([TRASH_DIR, folderName].filter(Boolean).join("/"));
+
+const readJson = async <T>(path: string): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await OpfsStorage.readFile(path))) as T;
+
+/**
+ * Move a clip of the active project to its trash
+ * Its place in the order and its transitions are kept for restoring it
+ */
+export const trashClip = async (folderName: string): Promise<void> => {
+  const { order, transitions } = await readManifest();
+  const index = order.indexOf(folderName);
+  const info: TrashInfo = {
+    deletedAt: Date.now(),
+    index: index === -1 ? null : index,
+    transitions: getItemTransitions(transitions, folderName),
+  };
+
+  // The info travels with the folder, so the move is the only step that can
+  // leave the clip half trashed
+  const infoPath = getProjectPath(`${folderName}/${TRASH_INFO_FILE}`);
+  await OpfsStorage.saveFile(infoPath, JSON.stringify(info, null, 2));
+
+  try {
+    await OpfsStorage.moveDirectory(
+      getProjectPath(folderName),
+      getTrashPath(folderName),
+    );
+  } catch (err) {
+    await OpfsStorage.deleteFile(infoPath).catch(() => {});
+    throw err;
+  }
+
+  await removeFromManifest(folderName);
+  evictDecodedClip(folderName);
+};
+
+/**
+ * List the trash of the active project, most recently deleted first
+ */
+export const listTrash = async (): Promise<TrashedClip[]> => {
+  const directories = await OpfsStorage.listDirectories(getProjectPath());
+  if (!directories.includes(TRASH_DIR)) return [];
+
+  const folders = await OpfsStorage.listDirectories(getTrashPath());
+  const clips = await Promise.all(
+    folders.map(async (folderName) => {
+      try {
+        const info = await readJson<TrashInfo>(
+          `${getTrashPath(folderName)}/${TRASH_INFO_FILE}`,
+        );
+        const metadata = await readJson<AudioMetadata>(
+          `${getTrashPath(folderName)}/${METADATA_FILE}`,
+        );
+
+        return {
+          ...info,
+          folderName,
+          metadata,
+          expiresAt: info.deletedAt + TRASH_RETENTION_DAYS * DAY_MS,
+        };
+      } catch (err) {
+        console.warn(`Failed to read trashed clip ${folderName}:`, err);
+        return null;
+      }
+    }),
+  );
+
+  return clips
+    .filter((clip) => clip !== null)
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+/**
+ * Put a trashed clip back into the active project, where it was in the order
+ */
+export const restoreClip = async (folderName: string): Promise<void> => {
+  const info = await readJson<TrashInfo>(
+    `${getTrashPath(folderName)}/${TRASH_INFO_FILE}`,
+  );
+
+  await OpfsStorage.moveDirectory(
+    getTrashPath(folderName),
+    getProjectPath(folderName),
+  );
+  await OpfsStorage.deleteFile(
+    getProjectPath(`${folderName}/${TRASH_INFO_FILE}`),
+  );
+
+  await updateManifest((manifest) => {
+    const order = manifest.order.filter((name) => name !== folderName);
+
+    if (info.index !== null) {
+      order.splice(Math.min(info.index, order.length), 0, folderName);
+    }
+
+    // Transitions only apply again if the clip is between the same neighbours
+    const transitions = { ...manifest.transitions, ...info.transitions };
+
+    return { ...manifest, order, transitions };
+  });
+};
+
+/**
+ * Delete a trashed clip for good
+ */
+export const deleteFromTrash = (folderName: string): Promise<void> =>
+  OpfsStorage.deleteDirectory(getTrashPath(folderName));
+
+/**
+ * Delete everything in the trash of the active project for good
+ */
+export const emptyTrash = (): Promise<void> =>
+  OpfsStorage.deleteDirectory(getTrashPath());
+
+/**
+ * Delete clips that have been in the trash for longer than the retention period
+ */
+export const purgeExpiredTrash = async (now = Date.now()): Promise<void> => {
+  for (const { folderName, expiresAt } of await listTrash()) {
+    if (expiresAt <= now) await deleteFromTrash(folderName);
+  }
+};
@@ -0,0 +1,85 @@
+// Files the OS drops into folders that are never meant to be uploaded
+const isHiddenFile = (name: string) => name.startsWith(".");
+
+/**
+ * Order files the way a file browser lists them ("2.mp3" before "10.mp3")
+ * @param files - Files with their path relative to the picked or dropped folder
+ */
+const sortByPath = (files: Array<{ path: string; file: File }>): File[] =>
+  files
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }))
+    .map(({ file }) => file);
+
+/**
+ * Recursively read the files under a dropped entry
+ */
+const readEntry = async (
+  entry: FileSystemEntry,
+): Promise<Array<{ path: string; file: File }>> => {
+  if (isHiddenFile(entry.name)) return [];
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    return [{ path: entry.fullPath, file }];
+  }
+
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: Array<{ path: string; file: File }> = [];
+
+  // readEntries returns the children in batches until it returns an empty one
+  for (;;) {
+    const children = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (children.length === 0) break;
+
+    for (const child of children) {
+      files.push(...(await readEntry(child)));
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Collect every file in a drop, descending into dropped folders
+ * Must be called synchronously from the drop handler, since the browser
+ * empties the DataTransfer once the event is over
+ * @param dataTransfer - DataTransfer of the drop event
+ */
+export const getDroppedFiles = async (
+  dataTransfer: DataTransfer,
+): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+
+  // Without entry support only top-level files can be read
+  if (entries.length === 0 || entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files = await Promise.all(
+    entries.map((entry) => readEntry(entry as FileSystemEntry)),
+  );
+  return sortByPath(files.flat());
+};
+
+/**
+ * Read the files picked through an <input type="file">, including those
+ * inside a picked folder
+ * @param fileList - FileList of the input
+ */
+export const getInputFiles = (fileList: FileList): File[] =>
+  sortByPath(
+    Array.from(fileList)
+      .filter(
+        (file) =>
+          !(file.webkitRelativePath || file.name).split("/").some(isHiddenFile),
+      )
+      .map((file) => ({ path: file.webkitRelativePath || file.name, file })),
+  );
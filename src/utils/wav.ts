@@ -0,0 +1,145 @@
+import type { PcmAudio } from "./pcm";
+import { getTagEntries, type AudioTags } from "./tags";
+
+export type WavBitDepth = 16 | 24;
+
+export interface EncodeWavOptions {
+  bitDepth?: WavBitDepth;
+  tags?: AudioTags; // Written as a LIST/INFO chunk after the audio
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+// Number of frames encoded between progress reports / yields to the UI
+const FRAMES_PER_CHUNK = 1 << 16;
+
+const WAV_HEADER_SIZE = 44;
+
+// RIFF INFO chunk IDs, keyed by tag
+const INFO_FIELDS: Record<keyof AudioTags, string> = {
+  title: "INAM",
+  artist: "IART",
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * Build a LIST/INFO chunk holding the tags, empty when no tag is set
+ */
+const createInfoChunk = (tags?: AudioTags): Uint8Array<ArrayBuffer> => {
+  const entries = getTagEntries(tags);
+  if (entries.length === 0) return new Uint8Array(0);
+
+  const encoder = new TextEncoder();
+  const fields = entries.map(
+    ([key, value]) => [INFO_FIELDS[key], encoder.encode(`${value}\0`)] as const,
+  );
+
+  // Every sub-chunk is padded to an even size
+  const size = fields.reduce(
+    (size, [, value]) => size + 8 + value.length + (value.length % 2),
+    4,
+  );
+  const bytes = new Uint8Array(8 + size);
+  const view = new DataView(bytes.buffer);
+
+  writeString(view, 0, "LIST");
+  view.setUint32(4, size, true);
+  writeString(view, 8, "INFO");
+
+  let offset = 12;
+  for (const [id, value] of fields) {
+    writeString(view, offset, id);
+    view.setUint32(offset + 4, value.length, true);
+    bytes.set(value, offset + 8);
+    offset += 8 + value.length + (value.length % 2);
+  }
+
+  return bytes;
+};
+
+/**
+ * Encode audio as an uncompressed PCM WAV file
+ * Work is split into chunks so long buffers report progress and can be cancelled
+ * @param buffer - Rendered audio to encode
+ * @param options - Bit depth, tags, progress callback and abort signal
+ * @returns Blob with the "audio/wav" MIME type
+ */
+export const encodeWav = async (
+  buffer: PcmAudio,
+  { bitDepth = 16, tags, onProgress, signal }: EncodeWavOptions = {},
+): Promise<Blob> => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const info = createInfoChunk(tags);
+
+  // The data chunk is padded to an even size when another chunk follows it
+  const infoOffset = WAV_HEADER_SIZE + dataSize + (info.length && dataSize % 2);
+
+  const arrayBuffer = new ArrayBuffer(infoOffset + info.length);
+  const view = new DataView(arrayBuffer);
+
+  // RIFF header
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, arrayBuffer.byteLength - 8, true);
+  writeString(view, 8, "WAVE");
+
+  // fmt chunk
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // data chunk
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i),
+  );
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+
+  let offset = WAV_HEADER_SIZE;
+
+  for (let start = 0; start < length; start += FRAMES_PER_CHUNK) {
+    signal?.throwIfAborted();
+
+    const end = Math.min(start + FRAMES_PER_CHUNK, length);
+
+    for (let frame = start; frame < end; frame++) {
+      for (const channel of channels) {
+        const sample = Math.max(-1, Math.min(1, channel[frame]));
+        const value = Math.round(sample * maxValue);
+
+        if (bitDepth === 16) {
+          view.setInt16(offset, value, true);
+        } else {
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+
+        offset += bytesPerSample;
+      }
+    }
+
+    onProgress?.(end / length);
+
+    // Yield so the UI can repaint and cancel clicks get through
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+
+  new Uint8Array(arrayBuffer).set(info, infoOffset);
+
+  return new Blob([arrayBuffer], { type: "audio/wav" });
+};
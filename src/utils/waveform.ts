@@ -0,0 +1,99 @@
+import type { PcmAudio } from "./pcm";
+
+/**
+ * Reduce an AudioBuffer to one peak value per bin
+ * @param buffer - Decoded audio
+ * @param bins - Number of peaks to return (usually the pixel width)
+ * @returns Peak amplitudes (0-1) across all channels
+ */
+export const getWaveformPeaks = (
+  buffer: PcmAudio,
+  bins: number,
+): Float32Array => {
+  const peaks = new Float32Array(bins);
+  const samplesPerBin = buffer.length / bins;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+
+    for (let bin = 0; bin < bins; bin++) {
+      const start = Math.floor(bin * samplesPerBin);
+      const end = Math.min(Math.floor((bin + 1) * samplesPerBin), data.length);
+
+      let peak = peaks[bin];
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+      peaks[bin] = Math.min(peak, 1);
+    }
+  }
+
+  return peaks;
+};
+
+/**
+ * Draw mirrored waveform bars, one per peak, filling the canvas
+ * @param ctx - Canvas 2D context to draw into
+ * @param peaks - Peak amplitudes from getWaveformPeaks
+ * @param color - Any CSS color
+ */
+export const drawWaveform = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  peaks: Float32Array,
+  color: string,
+) => {
+  const { width, height } = ctx.canvas;
+  const barWidth = width / peaks.length;
+  const middle = height / 2;
+
+  // Separate bars once they are wide enough to tell apart
+  const gap = barWidth > 3 ? barWidth * 0.25 : 0;
+
+  ctx.fillStyle = color;
+
+  peaks.forEach((peak, i) => {
+    // Keep silent sections visible as a thin line
+    const barHeight = Math.max(1, peak * height);
+    ctx.fillRect(
+      i * barWidth + gap / 2,
+      middle - barHeight / 2,
+      barWidth - gap,
+      barHeight,
+    );
+  });
+};
+
+// Size of generated cover images, in px
+const COVER_SIZE = 512;
+const COVER_BARS = 96;
+
+/**
+ * Render a square waveform image tinted with the clip color
+ * @param buffer - Decoded audio
+ * @param color - Clip color (e.g. from generateAudioColor)
+ * @returns PNG image
+ */
+export const renderWaveformCover = async (
+  buffer: PcmAudio,
+  color: string,
+): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(COVER_SIZE, COVER_SIZE);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  // Dark base with a faint wash of the clip color behind the bars
+  ctx.fillStyle = "#111113";
+  ctx.fillRect(0, 0, COVER_SIZE, COVER_SIZE);
+  ctx.fillStyle = color.replace("%)", "%, 0.15)");
+  ctx.fillRect(0, 0, COVER_SIZE, COVER_SIZE);
+
+  // Leave some padding around the waveform
+  const padding = COVER_SIZE * 0.15;
+  ctx.translate(padding, padding);
+  ctx.scale(1 - (2 * padding) / COVER_SIZE, 1 - (2 * padding) / COVER_SIZE);
+
+  drawWaveform(ctx, getWaveformPeaks(buffer, COVER_BARS), color);
+
+  return await canvas.convertToBlob({ type: "image/png" });
+};
@@ -0,0 +1,279 @@
+import { encodeFlac, type EncodeFlacOptions } from "./flac";
+import { measureLoudness } from "./loudness";
+import {
+  DEFAULT_OPUS_BITRATE,
+  encodeOpus,
+  type EncodeOpusOptions,
+} from "./opus";
+import { copyPcmData, type PcmAudio, type PcmData } from "./pcm";
+import { detectSilence, type SilenceAnalysis } from "./silence";
+import { OPFS_CHANGE_EVENT, OpfsStorage } from "./storage";
+import { encodeWav, type EncodeWavOptions } from "./wav";
+import { getWaveformPeaks, renderWaveformCover } from "./waveform";
+import type {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTasks,
+  WorkerTaskType,
+} from "./workerProtocol";
+
+export interface WorkerTaskOptions {
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+  transfer?: Transferable[]; // Request data handed over rather than copied
+}
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+const getPcmTransfer = ({ channels }: PcmData) =>
+  channels.map((channel) => channel.buffer);
+
+/**
+ * Runs storage operations and heavy audio work in a dedicated worker
+ * Where workers aren't available the audio work runs on the main thread
+ */
+export class AudioWorker {
+  private static worker: Worker | null = null;
+  private static nextId = 0;
+  private static pending = new Map<number, PendingTask>();
+
+  static isSupported(): boolean {
+    return typeof Worker !== "undefined";
+  }
+
+  private static getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(
+      new URL("../workers/audio.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+
+    worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) =>
+      this.handleMessage(event.data),
+    );
+
+    // A worker that fails to start fails every task; the next one retries
+    worker.addEventListener("error", (event) => {
+      console.error("Audio worker failed:", event.message);
+
+      for (const task of this.pending.values()) {
+        task.reject(new Error(event.message || "Audio worker failed"));
+      }
+      this.pending.clear();
+      this.worker = null;
+    });
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private static handleMessage(message: WorkerResponse): void {
+    // OPFS changes made in the worker are announced to the window as usual
+    if (message.kind === "change") {
+      window.dispatchEvent(
+        new CustomEvent(OPFS_CHANGE_EVENT, { detail: message.detail }),
+      );
+      return;
+    }
+
+    const task = this.pending.get(message.id);
+    if (!task) return;
+
+    switch (message.kind) {
+      case "progress":
+        task.onProgress?.(message.progress);
+        break;
+      case "result":
+        this.pending.delete(message.id);
+        task.resolve(message.result);
+        break;
+      case "error":
+        this.pending.delete(message.id);
+        task.reject(
+          Object.assign(new Error(message.message), { name: message.name }),
+        );
+        break;
+    }
+  }
+
+  /**
+   * Run a task in the worker
+   * @param type - Task to run
+   * @param request - Data the task works on
+   * @param options - Progress callback, abort signal and data to transfer
+   */
+  static run<T extends WorkerTaskType>(
+    type: T,
+    request: WorkerTasks[T]["request"],
+    { onProgress, signal, transfer = [] }: WorkerTaskOptions = {},
+  ): Promise<WorkerTasks[T]["result"]> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const worker = this.getWorker();
+      const id = this.nextId++;
+
+      const onAbort = () => {
+        this.pending.delete(id);
+        worker.postMessage({ kind: "cancel", id } satisfies WorkerRequest);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(result as WorkerTasks[T]["result"]);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        onProgress,
+      });
+
+      const message = { kind: "task", id, type, request } as WorkerRequest;
+      worker.postMessage(message, transfer);
+    });
+  }
+
+  /**
+   * Reduce audio to one peak value per bin, see getWaveformPeaks
+   */
+  static async getWaveformPeaks(
+    buffer: PcmAudio,
+    bins: number,
+  ): Promise<Float32Array> {
+    if (!this.isSupported()) return getWaveformPeaks(buffer, bins);
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "peaks",
+      { audio, bins },
+      { transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Measure integrated loudness in LUFS, see measureLoudness
+   */
+  static async measureLoudness(buffer: PcmAudio): Promise<number> {
+    if (!this.isSupported()) return measureLoudness(buffer);
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "loudness",
+      { audio },
+      { transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Find silence at the head, tail and inside of audio, see detectSilence
+   */
+  static async detectSilence(
+    buffer: PcmAudio,
+    threshold: number,
+  ): Promise<SilenceAnalysis> {
+    if (!this.isSupported()) return detectSilence(buffer, threshold);
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "silence",
+      { audio, threshold },
+      { transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Render a waveform cover image, see renderWaveformCover
+   */
+  static async renderWaveformCover(
+    buffer: PcmAudio,
+    color: string,
+  ): Promise<Blob> {
+    if (!this.isSupported()) return await renderWaveformCover(buffer, color);
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "cover",
+      { audio, color },
+      { transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Encode audio as a WAV file, see encodeWav
+   */
+  static async encodeWav(
+    buffer: PcmAudio,
+    { bitDepth = 16, tags, onProgress, signal }: EncodeWavOptions = {},
+  ): Promise<Blob> {
+    if (!this.isSupported()) {
+      return await encodeWav(buffer, { bitDepth, tags, onProgress, signal });
+    }
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "encode-wav",
+      { audio, bitDepth, tags },
+      { onProgress, signal, transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Encode audio as a FLAC file, see encodeFlac
+   */
+  static async encodeFlac(
+    buffer: PcmAudio,
+    { bitDepth = 16, tags, onProgress, signal }: EncodeFlacOptions = {},
+  ): Promise<Blob> {
+    if (!this.isSupported()) {
+      return await encodeFlac(buffer, { bitDepth, tags, onProgress, signal });
+    }
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "encode-flac",
+      { audio, bitDepth, tags },
+      { onProgress, signal, transfer: getPcmTransfer(audio) },
+    );
+  }
+
+  /**
+   * Encode audio as an Ogg Opus file, see encodeOpus
+   */
+  static async encodeOpus(
+    buffer: PcmAudio,
+    {
+      bitrate = DEFAULT_OPUS_BITRATE,
+      tags,
+      onProgress,
+      signal,
+    }: EncodeOpusOptions = {},
+  ): Promise<Blob> {
+    if (!this.isSupported()) {
+      return await encodeOpus(buffer, { bitrate, tags, onProgress, signal });
+    }
+
+    const audio = copyPcmData(buffer);
+    return await this.run(
+      "encode-opus",
+      { audio, bitrate, tags },
+      { onProgress, signal, transfer: getPcmTransfer(audio) },
+    );
+  }
+}
+
+// The worker owns OPFS whenever it can run; the window only forwards calls
+if (typeof window !== "undefined" && AudioWorker.isSupported()) {
+  OpfsStorage.setRemote((type, request) => AudioWorker.run(type, request));
+}
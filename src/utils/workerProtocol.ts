@@ -0,0 +1,106 @@
+import type { FlacBitDepth } from "./flac";
+import type { PcmData } from "./pcm";
+import type { SilenceAnalysis } from "./silence";
+import type { OpfsChangeDetail } from "./storage";
+import type { AudioTags } from "./tags";
+import type { WavBitDepth } from "./wav";
+
+/**
+ * Everything the audio worker can do: the request each task takes and the
+ * result it answers with
+ */
+export interface WorkerTasks {
+  "save-file": {
+    request: {
+      path: string;
+      data: string | ArrayBuffer | Blob | ArrayBufferView;
+    };
+    result: void;
+  };
+  "read-file": { request: { path: string }; result: ArrayBuffer };
+  "read-file-range": {
+    request: { path: string; start: number; end?: number };
+    result: ArrayBuffer;
+  };
+  "get-file": { request: { path: string }; result: File };
+  "open-writer": { request: { path: string }; result: number }; // Writer ID
+  "write-chunk": {
+    request: { writerId: number; chunk: Uint8Array<ArrayBuffer> };
+    result: void;
+  };
+  "close-writer": { request: { writerId: number }; result: void };
+  "abort-writer": { request: { writerId: number }; result: void };
+  "get-file-details": {
+    request: { path: string };
+    result: { exists: boolean; size: number };
+  };
+  "list-directories": { request: { path: string }; result: string[] };
+  "list-files": { request: { path: string }; result: string[] };
+  "delete-file": { request: { path: string }; result: void };
+  "delete-directory": { request: { path: string }; result: void };
+  "move-directory": { request: { from: string; to: string }; result: void };
+  peaks: { request: { audio: PcmData; bins: number }; result: Float32Array };
+  loudness: { request: { audio: PcmData }; result: number };
+  silence: {
+    request: { audio: PcmData; threshold: number };
+    result: SilenceAnalysis;
+  };
+  cover: { request: { audio: PcmData; color: string }; result: Blob };
+  "encode-wav": {
+    request: { audio: PcmData; bitDepth: WavBitDepth; tags?: AudioTags };
+    result: Blob;
+  };
+  "encode-flac": {
+    request: { audio: PcmData; bitDepth: FlacBitDepth; tags?: AudioTags };
+    result: Blob;
+  };
+  "encode-opus": {
+    request: { audio: PcmData; bitrate: number; tags?: AudioTags };
+    result: Blob;
+  };
+}
+
+export type WorkerTaskType = keyof WorkerTasks;
+
+/**
+ * Tasks OpfsStorage hands to the worker when called from the window
+ */
+export type StorageTaskType =
+  | "save-file"
+  | "read-file"
+  | "read-file-range"
+  | "get-file"
+  | "open-writer"
+  | "write-chunk"
+  | "close-writer"
+  | "abort-writer"
+  | "get-file-details"
+  | "list-directories"
+  | "list-files"
+  | "delete-file"
+  | "delete-directory"
+  | "move-directory";
+
+/**
+ * Messages posted to the worker
+ */
+export type WorkerRequest =
+  | {
+      [T in WorkerTaskType]: {
+        kind: "task";
+        id: number;
+        type: T;
+        request: WorkerTasks[T]["request"];
+      };
+    }[WorkerTaskType]
+  | { kind: "cancel"; id: number };
+
+/**
+ * Messages posted back by the worker
+ * Change events carry OPFS changes made in the worker to the window
+ */
+export type WorkerResponse =
+  | { kind: "result"; id: number; result: unknown }
+  | { kind: "progress"; id: number; progress: number }
+  | { kind: "error"; id: number; name: string; message: string }
+  | { kind: "change"; detail: OpfsChangeDetail };
@@ -0,0 +1,301 @@
+/**
+ * A file to put into a ZIP archive
+ */
+export interface ZipInput {
+  name: string; // Path inside the archive, "/"-separated
+  data: ArrayBuffer | string | ReadableStream<Uint8Array<ArrayBuffer>>;
+}
+
+/**
+ * A file found in a ZIP archive, read on demand
+ */
+export interface ZipEntry {
+  name: string;
+  size: number; // Uncompressed size in bytes
+  read: () => Promise<ArrayBuffer>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const DATA_DESCRIPTOR_SIZE = 16;
+const MAX_COMMENT_SIZE = 0xffff;
+const MAX_ZIP_SIZE = 0xffffffff; // Largest offset a 32-bit header field holds
+
+const ZIP_VERSION = 20; // 2.0: the lowest version that knows folders and deflate
+const UTF8_FLAG = 0x0800; // File names are UTF-8
+const DATA_DESCRIPTOR_FLAG = 0x0008; // Checksum and sizes follow the data
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+const CRC_INITIAL = 0xffffffff;
+
+// A checksum is built up chunk by chunk, starting from CRC_INITIAL
+const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+};
+
+const finishCrc32 = (crc: number): number => (crc ^ 0xffffffff) >>> 0;
+
+const crc32 = (data: Uint8Array): number =>
+  finishCrc32(updateCrc32(CRC_INITIAL, data));
+
+/**
+ * Date and time packed the way MS-DOS (and so ZIP) stores them
+ */
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+const toStream = (
+  data: ZipInput["data"],
+): ReadableStream<Uint8Array<ArrayBuffer>> => {
+  if (data instanceof ReadableStream) return data;
+
+  const bytes =
+    typeof data === "string"
+      ? new TextEncoder().encode(data)
+      : new Uint8Array(data);
+  return new Blob([bytes]).stream();
+};
+
+/**
+ * Produce the bytes of a ZIP archive one piece at a time
+ * Each file's checksum and size are only known once it has been streamed, so
+ * they follow its data in a data descriptor as well as the central directory
+ */
+async function* writeZip(
+  files: ZipInput[],
+): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+  const flags = UTF8_FLAG | DATA_DESCRIPTOR_FLAG;
+
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+
+    const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, flags, true);
+    localView.setUint16(8, METHOD_STORE, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_SIZE);
+    yield local;
+
+    let crc = CRC_INITIAL;
+    let size = 0;
+    const reader = toStream(file.data).getReader();
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.length;
+      if (offset + local.length + size > MAX_ZIP_SIZE) {
+        throw new Error("Archive would exceed 4 GB");
+      }
+
+      crc = updateCrc32(crc, value);
+      yield value;
+    }
+    crc = finishCrc32(crc);
+
+    const descriptor = new DataView(new ArrayBuffer(DATA_DESCRIPTOR_SIZE));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    yield new Uint8Array(descriptor.buffer);
+
+    const central = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+    const view = new DataView(central.buffer);
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, ZIP_VERSION, true);
+    view.setUint16(8, flags, true);
+    view.setUint16(10, METHOD_STORE, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, crc, true);
+    view.setUint32(20, size, true);
+    view.setUint32(24, size, true);
+    view.setUint16(28, name.length, true);
+    view.setUint32(42, offset, true);
+    central.set(name, CENTRAL_HEADER_SIZE);
+    centralHeaders.push(central);
+
+    offset += local.length + size + DATA_DESCRIPTOR_SIZE;
+  }
+
+  const centralSize = centralHeaders.reduce(
+    (size, header) => size + header.length,
+    0,
+  );
+  yield* centralHeaders;
+
+  const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  yield new Uint8Array(end.buffer);
+}
+
+/**
+ * Build a ZIP archive as a stream, so files never have to fit in memory
+ * Files are stored uncompressed: audio is compressed already, and storing
+ * keeps the archive readable by every unzip tool. Archives are limited to
+ * 4 GB, as ZIP64 isn't written
+ * @param files - Files in the order they appear in the archive; streamed
+ * files are only read once the archive gets to them
+ */
+export const createZipStream = (
+  files: ZipInput[],
+): ReadableStream<Uint8Array<ArrayBuffer>> => {
+  const chunks = writeZip(files);
+
+  return new ReadableStream({
+    pull: async (controller) => {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: async () => {
+      await chunks.return(undefined);
+    },
+  });
+};
+
+const inflate = async (data: Blob): Promise<ArrayBuffer> =>
+  await new Response(
+    data.stream().pipeThrough(new DecompressionStream("deflate-raw")),
+  ).arrayBuffer();
+
+/**
+ * List the files in a ZIP archive without reading their contents
+ * Reads stored and deflated files, which covers archives re-packed by
+ * common zip tools
+ * @param archive - The ZIP file
+ * @returns Files keyed by their path in the archive (folders are left out)
+ */
+export const readZip = async (
+  archive: Blob,
+): Promise<Map<string, ZipEntry>> => {
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, unless followed by a comment
+  const tailStart = Math.max(
+    0,
+    archive.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE,
+  );
+  const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+
+  let endOffset = -1;
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error("Not a ZIP archive");
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+
+  const central = new DataView(
+    await archive
+      .slice(centralOffset, centralOffset + centralSize)
+      .arrayBuffer(),
+  );
+  const entries = new Map<string, ZipEntry>();
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt ZIP archive");
+    }
+
+    const method = central.getUint16(position + 10, true);
+    const crc = central.getUint32(position + 16, true);
+    const compressedSize = central.getUint32(position + 20, true);
+    const size = central.getUint32(position + 24, true);
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const localOffset = central.getUint32(position + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(
+        central.buffer,
+        position + CENTRAL_HEADER_SIZE,
+        nameLength,
+      ),
+    );
+
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    const read = async () => {
+      if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+        throw new Error(`Unsupported compression in ${name}`);
+      }
+
+      // The local header may have its own extra field, so find where data starts
+      const local = new DataView(
+        await archive
+          .slice(localOffset, localOffset + LOCAL_HEADER_SIZE)
+          .arrayBuffer(),
+      );
+      const dataStart =
+        localOffset +
+        LOCAL_HEADER_SIZE +
+        local.getUint16(26, true) +
+        local.getUint16(28, true);
+      const compressed = archive.slice(dataStart, dataStart + compressedSize);
+
+      const data =
+        method === METHOD_DEFLATE
+          ? await inflate(compressed)
+          : await compressed.arrayBuffer();
+
+      if (crc32(new Uint8Array(data)) !== crc) {
+        throw new Error(`${name} is damaged (checksum mismatch)`);
+      }
+
+      return data;
+    };
+
+    entries.set(name, { name, size, read });
+  }
+
+  return entries;
+};
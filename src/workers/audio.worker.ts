@@ -0,0 +1,181 @@
+import { encodeFlac } from "../utils/flac";
+import { measureLoudness } from "../utils/loudness";
+import { encodeOpus } from "../utils/opus";
+import { createPcmAudio } from "../utils/pcm";
+import { detectSilence } from "../utils/silence";
+import { OpfsStorage, type OpfsFileWriter } from "../utils/storage";
+import { encodeWav } from "../utils/wav";
+import { getWaveformPeaks, renderWaveformCover } from "../utils/waveform";
+import type {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTasks,
+  WorkerTaskType,
+} from "../utils/workerProtocol";
+
+/**
+ * Dedicated worker owning OPFS access and heavy audio work
+ * Decoding stays on the main thread, as audio contexts don't exist in workers;
+ * decoded samples are posted here for analysis and encoding
+ */
+
+interface TaskContext {
+  signal: AbortSignal;
+  onProgress: (progress: number) => void;
+}
+
+type TaskHandlers = {
+  [T in WorkerTaskType]: (
+    request: WorkerTasks[T]["request"],
+    context: TaskContext,
+  ) => WorkerTasks[T]["result"] | Promise<WorkerTasks[T]["result"]>;
+};
+
+// Sync access handles are exclusive, so operations on one file wait their turn
+const fileLocks = new Map<string, Promise<unknown>>();
+
+const withFileLock = <T>(path: string, run: () => Promise<T>): Promise<T> => {
+  const task = (fileLocks.get(path) ?? Promise.resolve()).then(run, run);
+  const settled = task.catch(() => {});
+
+  fileLocks.set(path, settled);
+  settled.then(() => {
+    if (fileLocks.get(path) === settled) fileLocks.delete(path);
+  });
+
+  return task;
+};
+
+// Files opened for writing by the window, which holds their lock until closed
+const writers = new Map<
+  number,
+  { writer: OpfsFileWriter; release: VoidFunction }
+>();
+let nextWriterId = 0;
+
+/**
+ * Open a file for writing, keeping its lock until the writer is closed or aborted
+ * @returns ID the window refers to the writer by
+ */
+const openWriter = (path: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    withFileLock(path, async () => {
+      let release!: VoidFunction;
+      const released = new Promise<void>((done) => (release = done));
+
+      try {
+        const writerId = nextWriterId++;
+        writers.set(writerId, {
+          writer: await OpfsStorage.openFileWriter(path),
+          release,
+        });
+        resolve(writerId);
+      } catch (err) {
+        reject(err);
+        return;
+      }
+
+      await released;
+    });
+  });
+
+/**
+ * Close or abort a writer and release the lock on its file
+ */
+const finishWriter = async (writerId: number, action: "close" | "abort") => {
+  const entry = writers.get(writerId);
+  if (!entry) throw new Error(`Unknown writer ${writerId}`);
+
+  writers.delete(writerId);
+  try {
+    await entry.writer[action]();
+  } finally {
+    entry.release();
+  }
+};
+
+const getWriter = (writerId: number) => {
+  const entry = writers.get(writerId);
+  if (!entry) throw new Error(`Unknown writer ${writerId}`);
+  return entry.writer;
+};
+
+const handlers: TaskHandlers = {
+  "save-file": ({ path, data }) =>
+    withFileLock(path, () => OpfsStorage.saveFile(path, data)),
+  "read-file": ({ path }) =>
+    withFileLock(path, () => OpfsStorage.readFile(path)),
+  "read-file-range": ({ path, start, end }) =>
+    withFileLock(path, () => OpfsStorage.readFileRange(path, start, end)),
+  "get-file": ({ path }) => withFileLock(path, () => OpfsStorage.getFile(path)),
+  "open-writer": ({ path }) => openWriter(path),
+  "write-chunk": ({ writerId, chunk }) => getWriter(writerId).write(chunk),
+  "close-writer": ({ writerId }) => finishWriter(writerId, "close"),
+  "abort-writer": ({ writerId }) => finishWriter(writerId, "abort"),
+  "get-file-details": ({ path }) =>
+    withFileLock(path, () => OpfsStorage.getFileDetails(path)),
+  "list-directories": ({ path }) => OpfsStorage.listDirectories(path),
+  "list-files": ({ path }) => OpfsStorage.listFiles(path),
+  "delete-file": ({ path }) =>
+    withFileLock(path, () => OpfsStorage.deleteFile(path)),
+  "delete-directory": ({ path }) => OpfsStorage.deleteDirectory(path),
+  "move-directory": ({ from, to }) => OpfsStorage.moveDirectory(from, to),
+  peaks: ({ audio, bins }) => getWaveformPeaks(createPcmAudio(audio), bins),
+  loudness: ({ audio }) => measureLoudness(createPcmAudio(audio)),
+  silence: ({ audio, threshold }) =>
+    detectSilence(createPcmAudio(audio), threshold),
+  cover: ({ audio, color }) =>
+    renderWaveformCover(createPcmAudio(audio), color),
+  "encode-wav": ({ audio, bitDepth, tags }, { signal, onProgress }) =>
+    encodeWav(createPcmAudio(audio), { bitDepth, tags, signal, onProgress }),
+  "encode-flac": ({ audio, bitDepth, tags }, { signal, onProgress }) =>
+    encodeFlac(createPcmAudio(audio), { bitDepth, tags, signal, onProgress }),
+  "encode-opus": ({ audio, bitrate, tags }, { signal, onProgress }) =>
+    encodeOpus(createPcmAudio(audio), { bitrate, tags, signal, onProgress }),
+};
+
+// Controllers of running tasks, so the window can cancel them
+const controllers = new Map<number, AbortController>();
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+// Hand large binary results over instead of copying them
+const getTransfer = (result: unknown): Transferable[] => {
+  if (result instanceof ArrayBuffer) return [result];
+  if (result instanceof Float32Array) return [result.buffer];
+  return [];
+};
+
+self.addEventListener("message", async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.kind === "cancel") {
+    controllers.get(message.id)?.abort();
+    return;
+  }
+
+  const { id, type, request } = message;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    // The protocol pairs every type with its request, which TypeScript can't
+    // follow through the lookup
+    const handler = handlers[type] as (
+      request: unknown,
+      context: TaskContext,
+    ) => unknown;
+    const result = await handler(request, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ kind: "progress", id, progress }),
+    });
+
+    post({ kind: "result", id, result }, getTransfer(result));
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    post({ kind: "error", id, name: error.name, message: error.message });
+  } finally {
+    controllers.delete(id);
+  }
+});
@@ -0,0 +1,50 @@
+import {
+  PITCH_CORRECTION_DISPOSE,
+  PITCH_CORRECTION_PROCESSOR,
+  PitchCorrector,
+  type PitchCorrectionOptions,
+} from "../utils/pitchCorrection";
+
+// The AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare const registerProcessor: (
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+) => void;
+
+/**
+ * Keeps the pitch of sources played at another speed natural
+ * Sources connect to it at their playback rate; it outputs stereo
+ */
+class PitchCorrectionProcessor extends AudioWorkletProcessor {
+  private corrector: PitchCorrector;
+  private isDisposed = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super();
+
+    const { speed } = options.processorOptions as PitchCorrectionOptions;
+    const channels = options.outputChannelCount?.[0] ?? 2;
+    this.corrector = new PitchCorrector(channels, sampleRate, speed);
+
+    this.port.onmessage = ({ data }) => {
+      if (data === PITCH_CORRECTION_DISPOSE) this.isDisposed = true;
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    // Returning false lets the node be collected once it's disconnected
+    if (this.isDisposed) return false;
+
+    const [output] = outputs;
+    this.corrector.push(inputs[0], output[0].length);
+    this.corrector.pull(output);
+
+    return true;
+  }
+}
+
+registerProcessor(PITCH_CORRECTION_PROCESSOR, PitchCorrectionProcessor);